@@ -18,15 +18,20 @@ module.exports = {
       autorestart: true,
       max_memory_restart: "500M",
     },
-    // Workers - process jobs from queues
+    // Workers - process jobs from queues. Every group runs the same build and
+    // picks its queues with WORKER_QUEUES (plus optional WORKER_CONCURRENCY
+    // overrides), so a group can move to its own machine or scale on its own.
     {
       name: "bullmq-workers",
+      namespace: "workers", // `pm2 logs workers` / `pm2 restart workers` cover every group
       script: "./dist/workers.js",
       instances: 2, // Run 2 worker instances for better throughput
       exec_mode: "cluster", // Use cluster mode for multiple instances
       watch: false,
       env: {
         NODE_ENV: "production",
+        WORKER_QUEUES: "hello,email,critical,webhook",
+        WORKER_HEALTH_PORT: 3001, // Shared by the cluster instances
       },
       error_file: "./logs/workers-error.log",
       out_file: "./logs/workers-out.log",
@@ -36,5 +41,28 @@ module.exports = {
       max_memory_restart: "800M",
       restart_delay: 4000,
     },
+    // Image processing - CPU and memory heavy. On a dedicated VM, start only this
+    // app: `pm2 start ecosystem.config.js --only bullmq-workers-image`
+    {
+      name: "bullmq-workers-image",
+      namespace: "workers",
+      script: "./dist/workers.js",
+      instances: 1,
+      exec_mode: "fork",
+      watch: false,
+      env: {
+        NODE_ENV: "production",
+        WORKER_QUEUES: "image",
+        WORKER_CONCURRENCY: "image:4", // Each job gets its own sandbox process
+        WORKER_HEALTH_PORT: 3002,
+      },
+      error_file: "./logs/workers-image-error.log",
+      out_file: "./logs/workers-image-out.log",
+      log_date_format: "YYYY-MM-DD HH:mm:ss Z",
+      merge_logs: true,
+      autorestart: true,
+      max_memory_restart: "1500M",
+      restart_delay: 4000,
+    },
   ],
 };
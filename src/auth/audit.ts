@@ -0,0 +1,43 @@
+import { Request } from 'express';
+import { getRedisClient } from '../config/redis';
+import { Principal } from './principal';
+import { logger } from '../logging/logger';
+
+const log = logger.child({ component: 'auth' });
+
+const AUDIT_KEY = 'audit:auth';
+const MAX_AUDIT_ENTRIES = 1000;
+
+export interface AuthRejection {
+  status: 401 | 403;
+  reason: string;
+  principal?: Principal;
+  queue?: string;
+}
+
+// Rejected requests go to the log and to a capped Redis list
+export const auditRejection = (req: Request, rejection: AuthRejection) => {
+  const entry = {
+    type: 'auth.rejected',
+    status: rejection.status,
+    reason: rejection.reason,
+    principal: rejection.principal?.id ?? null,
+    via: rejection.principal?.via ?? null,
+    queue: rejection.queue ?? null,
+    method: req.method,
+    path: req.originalUrl,
+    ip: req.ip,
+    userAgent: req.get('user-agent') ?? null,
+    requestId: req.res?.locals.requestId ?? null,
+    at: new Date().toISOString(),
+  };
+
+  log.warn('Request rejected', entry);
+
+  getRedisClient()
+    .multi()
+    .lpush(AUDIT_KEY, JSON.stringify(entry))
+    .ltrim(AUDIT_KEY, 0, MAX_AUDIT_ENTRIES - 1)
+    .exec()
+    .catch(err => log.error('Could not write audit entry', { err }));
+};
@@ -0,0 +1,4 @@
+export * from './principal';
+export * from './middleware';
+export { loginRouter } from './login';
+export { auditRejection } from './audit';
@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { safeNext } from './login';
+
+describe('safeNext', () => {
+  it('keeps paths within the app', () => {
+    assert.equal(safeNext('/admin/queues/queue/email-queue?status=failed'), '/admin/queues/queue/email-queue?status=failed');
+    assert.equal(safeNext('/admin/../jobs'), '/jobs');
+  });
+
+  it('refuses redirects that leave the app', () => {
+    for (const next of [
+      'https://evil.com',
+      '//evil.com',
+      '/\\evil.com',
+      '/\\/evil.com',
+      '/\t/evil.com',
+      '/\n/evil.com',
+      'evil.com',
+      undefined,
+      ['/admin/queues'],
+    ]) {
+      assert.equal(safeNext(next), '/admin/queues', String(next));
+    }
+  });
+});
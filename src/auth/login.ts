@@ -0,0 +1,61 @@
+import express, { Router } from 'express';
+import { authConfig } from '../config/auth';
+import { auditRejection } from './audit';
+import { findApiKey, hasPermission, issueSessionToken } from './principal';
+
+const page = (error?: string, next = '/admin/queues') => `<!doctype html>
+<html>
+  <head><meta charset="utf-8"><title>Sign in · Bull Board</title></head>
+  <body style="font-family: sans-serif; max-width: 360px; margin: 10vh auto;">
+    <h2>Bull Board</h2>
+    ${error ? `<p style="color: #b00020;">${error}</p>` : ''}
+    <form method="post" action="/login">
+      <input type="hidden" name="next" value="${next.replace(/"/g, '&quot;')}">
+      <label>API key<br><input type="password" name="apiKey" autofocus style="width: 100%;"></label>
+      <p><button type="submit">Sign in</button></p>
+    </form>
+  </body>
+</html>`;
+
+const DEFAULT_NEXT = '/admin/queues';
+const LOCAL_ORIGIN = 'http://local';
+
+// Only allow redirects back into this app. Browsers read a backslash as "/" and
+// drop tabs and newlines, so those are refused before the path is resolved
+// against a placeholder origin that it must not leave.
+export const safeNext = (value: unknown) => {
+  if (typeof value !== 'string' || !value.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(value)) {
+    return DEFAULT_NEXT;
+  }
+  const url = new URL(value, LOCAL_ORIGIN);
+  return url.origin === LOCAL_ORIGIN ? `${url.pathname}${url.search}${url.hash}` : DEFAULT_NEXT;
+};
+
+export const loginRouter = Router();
+
+loginRouter.get('/login', (req, res) => {
+  res.type('html').send(page(undefined, safeNext(req.query.next)));
+});
+
+loginRouter.post('/login', express.urlencoded({ extended: false }), (req, res) => {
+  const next = safeNext(req.body?.next);
+  const principal = typeof req.body?.apiKey === 'string' ? findApiKey(req.body.apiKey) : undefined;
+
+  if (!principal || !hasPermission(principal, 'view')) {
+    auditRejection(req, { status: 401, reason: 'board login failed', principal });
+    return res.status(401).type('html').send(page('Invalid API key, or the key cannot view queues.', next));
+  }
+
+  res.cookie(authConfig.session.cookieName, issueSessionToken(principal), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: authConfig.session.secure,
+    maxAge: authConfig.session.ttlSeconds * 1000,
+  });
+  res.redirect(next);
+});
+
+loginRouter.post('/logout', (req, res) => {
+  res.clearCookie(authConfig.session.cookieName);
+  res.redirect('/login');
+});
@@ -0,0 +1,93 @@
+import { Request, RequestHandler } from 'express';
+import { authConfig } from '../config/auth';
+import { auditRejection } from './audit';
+import {
+  Permission,
+  Principal,
+  anonymousAdmin,
+  canAccessQueue,
+  findApiKey,
+  hasPermission,
+  verifyBearerToken,
+  verifySessionToken,
+} from './principal';
+
+const readCookie = (req: Request, name: string) =>
+  req
+    .get('cookie')
+    ?.split(';')
+    .map(part => part.trim().split('='))
+    .find(([key]) => key === name)?.[1];
+
+const resolvePrincipal = (req: Request): Principal | undefined => {
+  const apiKey = req.get('x-api-key');
+  if (apiKey) {
+    return findApiKey(apiKey);
+  }
+
+  const authorization = req.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    const token = authorization.slice('Bearer '.length).trim();
+    return verifyBearerToken(token) ?? findApiKey(token);
+  }
+
+  const session = readCookie(req, authConfig.session.cookieName);
+  return session ? verifySessionToken(decodeURIComponent(session)) : undefined;
+};
+
+// Attaches res.locals.principal when the request carries valid credentials
+export const authenticate: RequestHandler = (req, res, next) => {
+  res.locals.principal = authConfig.enabled ? resolvePrincipal(req) : anonymousAdmin;
+  next();
+};
+
+type PermissionResolver = Permission | ((req: Request) => Permission);
+type QueueResolver = string | ((req: Request) => string | undefined);
+
+export interface AuthorizeOptions {
+  queue?: QueueResolver;
+  loginRedirect?: boolean; // Send browsers to /login instead of answering 401
+  allQueues?: boolean;     // Only principals scoped to every queue (e.g. Bull Board)
+}
+
+export const authorize = (permission: PermissionResolver, options: AuthorizeOptions = {}): RequestHandler =>
+  (req, res, next) => {
+    const principal: Principal | undefined = res.locals.principal;
+    const required = typeof permission === 'function' ? permission(req) : permission;
+    const queue = typeof options.queue === 'function' ? options.queue(req) : options.queue;
+
+    if (!principal) {
+      auditRejection(req, { status: 401, reason: 'missing or invalid credentials', queue });
+      if (options.loginRedirect && req.method === 'GET' && req.accepts('html')) {
+        return res.redirect(`/login?next=${encodeURIComponent(req.originalUrl)}`);
+      }
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+
+    if (!hasPermission(principal, required)) {
+      auditRejection(req, { status: 403, reason: `missing permission "${required}"`, principal, queue });
+      return res.status(403).json({ success: false, error: `Forbidden: requires ${required} permission` });
+    }
+
+    if (options.allQueues && principal.queues !== '*') {
+      auditRejection(req, { status: 403, reason: 'requires access to all queues', principal });
+      return res.status(403).json({ success: false, error: 'Forbidden: requires access to all queues' });
+    }
+
+    if (queue && !canAccessQueue(principal, queue)) {
+      auditRejection(req, { status: 403, reason: 'queue out of scope', principal, queue });
+      return res.status(403).json({ success: false, error: `Forbidden: no access to queue "${queue}"` });
+    }
+
+    next();
+  };
+
+// Helpers for routers mounted under a prefix, e.g. /dlq/:queue/...
+export const queueFromPath = (req: Request) => req.path.split('/')[1] || undefined;
+export const readOrOperate = (req: Request): Permission =>
+  req.method === 'GET' || req.method === 'HEAD' ? 'view' : 'operate';
+
+// Stable identity for per-client state (rate limits, idempotency keys).
+// Anonymous callers (or auth disabled) are identified by IP.
+export const clientId = (req: Request, principal?: Principal) =>
+  principal && principal.via !== 'anonymous' ? `key:${principal.id}` : `ip:${req.ip}`;
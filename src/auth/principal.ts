@@ -0,0 +1,96 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { z } from 'zod';
+import { authConfig, QueueScope, Role, ROLES } from '../config/auth';
+
+export type Permission = 'produce' | 'view' | 'operate';
+
+export interface Principal {
+  id: string;
+  roles: Role[];
+  queues: QueueScope;
+  dailyQuota?: number;
+  via: 'api-key' | 'jwt' | 'session' | 'anonymous';
+}
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  producer: ['produce'],
+  viewer: ['view'],
+  operator: ['view', 'operate'],
+  admin: ['view', 'operate', 'produce'],
+};
+
+// Used when auth is disabled (local development)
+export const anonymousAdmin: Principal = { id: 'anonymous', roles: ['admin'], queues: '*', via: 'anonymous' };
+
+export const hasPermission = (principal: Principal, permission: Permission) =>
+  principal.roles.some(role => ROLE_PERMISSIONS[role].includes(permission));
+
+export const canAccessQueue = (principal: Principal, queueKey: string) =>
+  principal.queues === '*' || principal.queues.includes(queueKey);
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+const keyDigests = authConfig.apiKeys.map(apiKey => ({ apiKey, digest: digest(apiKey.key) }));
+
+export const findApiKey = (key: string): Principal | undefined => {
+  const candidate = digest(key);
+  const match = keyDigests.find(entry => timingSafeEqual(entry.digest, candidate));
+  if (!match) {
+    return undefined;
+  }
+  const { id, roles, queues, dailyQuota } = match.apiKey;
+  return { id, roles, queues, dailyQuota, via: 'api-key' };
+};
+
+const claimsSchema = z.object({
+  sub: z.string().min(1),
+  roles: z.array(z.enum(ROLES)).min(1),
+  queues: z.union([z.literal('*'), z.array(z.string())]).default('*'),
+  dailyQuota: z.number().int().min(0).optional(),
+});
+
+const fromClaims = (payload: unknown, via: Principal['via']): Principal | undefined => {
+  const claims = claimsSchema.safeParse(payload);
+  if (!claims.success) {
+    return undefined;
+  }
+  const { sub, roles, queues, dailyQuota } = claims.data;
+  return { id: sub, roles, queues, dailyQuota, via };
+};
+
+export const verifyBearerToken = (token: string): Principal | undefined => {
+  if (!authConfig.jwt) {
+    return undefined;
+  }
+  try {
+    const payload = jwt.verify(token, authConfig.jwt.secret, {
+      algorithms: ['HS256'],
+      issuer: authConfig.jwt.issuer,
+      audience: authConfig.jwt.audience,
+    });
+    return fromClaims(payload, 'jwt');
+  } catch {
+    return undefined;
+  }
+};
+
+// Bull Board login sessions are short-lived JWTs in an HttpOnly cookie
+export const issueSessionToken = (principal: Principal) =>
+  jwt.sign(
+    { sub: principal.id, roles: principal.roles, queues: principal.queues, dailyQuota: principal.dailyQuota, typ: 'session' },
+    authConfig.session.secret,
+    { algorithm: 'HS256', expiresIn: authConfig.session.ttlSeconds }
+  );
+
+export const verifySessionToken = (token: string): Principal | undefined => {
+  try {
+    const payload = jwt.verify(token, authConfig.session.secret, { algorithms: ['HS256'] });
+    if (typeof payload !== 'object' || payload.typ !== 'session') {
+      return undefined;
+    }
+    return fromClaims(payload, 'session');
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,74 @@
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import { logger } from '../logging/logger';
+
+export const ROLES = ['producer', 'viewer', 'operator', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+const queueScopeSchema = z.union([z.literal('*'), z.array(z.string().min(1)).min(1)]);
+
+const apiKeySchema = z.object({
+  id: z.string().min(1),
+  key: z.string().min(24, 'API keys must be at least 24 characters'),
+  roles: z.array(z.enum(ROLES)).min(1),
+  queues: queueScopeSchema.default('*'),
+  dailyQuota: z.number().int().min(0).optional(), // Overrides DAILY_JOB_QUOTA
+});
+
+export type ApiKeyConfig = z.infer<typeof apiKeySchema>;
+export type QueueScope = z.infer<typeof queueScopeSchema>;
+
+const parseApiKeys = (raw: string | undefined): ApiKeyConfig[] => {
+  if (!raw) {
+    return [];
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    throw new Error('API_KEYS must be a JSON array of { id, key, roles, queues }');
+  }
+
+  const result = z.array(apiKeySchema).safeParse(json);
+  if (!result.success) {
+    const details = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid API_KEYS: ${details}`);
+  }
+  return result.data;
+};
+
+// Auth is on by default in production and opt-in (AUTH_ENABLED=true) elsewhere
+const enabled =
+  process.env.AUTH_ENABLED !== undefined
+    ? process.env.AUTH_ENABLED === 'true'
+    : process.env.NODE_ENV === 'production';
+
+const apiKeys = parseApiKeys(process.env.API_KEYS);
+const jwtSecret = process.env.JWT_SECRET;
+
+if (enabled && apiKeys.length === 0 && !jwtSecret) {
+  throw new Error('Auth is enabled but neither API_KEYS nor JWT_SECRET is configured (set AUTH_ENABLED=false to disable)');
+}
+
+if (enabled && !process.env.SESSION_SECRET && !jwtSecret) {
+  logger.warn('SESSION_SECRET not set: Bull Board sessions will not survive a restart or work across instances', { component: 'auth' });
+}
+
+export const authConfig = {
+  enabled,
+  apiKeys,
+  jwt: jwtSecret
+    ? {
+        secret: jwtSecret,
+        issuer: process.env.JWT_ISSUER,
+        audience: process.env.JWT_AUDIENCE,
+      }
+    : undefined,
+  session: {
+    secret: process.env.SESSION_SECRET || jwtSecret || randomBytes(32).toString('hex'),
+    cookieName: 'bullmq_session',
+    ttlSeconds: parseInt(process.env.SESSION_TTL_SECONDS || String(8 * 60 * 60)),
+    secure: process.env.NODE_ENV === 'production',
+  },
+};
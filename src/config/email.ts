@@ -0,0 +1,34 @@
+import { resolve } from 'path';
+
+export const EMAIL_TRANSPORTS = ['smtp', 'file', 'memory'] as const;
+export type EmailTransportName = (typeof EMAIL_TRANSPORTS)[number];
+
+const parseTransport = (raw: string | undefined): EmailTransportName => {
+  if (!raw) {
+    return 'smtp';
+  }
+  if (!EMAIL_TRANSPORTS.includes(raw as EmailTransportName)) {
+    throw new Error(`EMAIL_TRANSPORT must be one of ${EMAIL_TRANSPORTS.join(', ')}`);
+  }
+  return raw as EmailTransportName;
+};
+
+const envInt = (name: string, fallback: number) => parseInt(process.env[name] || String(fallback));
+
+// SMTP defaults point at a local sink (Mailpit / MailDev on :1025) so dev
+// never sends real mail; 'file' writes .eml files, 'memory' keeps them in-process
+export const emailConfig = {
+  transport: parseTransport(process.env.EMAIL_TRANSPORT),
+  from: process.env.EMAIL_FROM || 'BullMQ Demo <no-reply@example.com>',
+  smtp: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: envInt('SMTP_PORT', 1025),
+    secure: process.env.SMTP_SECURE === 'true',      // Implicit TLS (465); STARTTLS is used when offered
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    timeoutMs: envInt('SMTP_TIMEOUT_MS', 10000),
+  },
+  fileDir: resolve(process.env.EMAIL_FILE_DIR || './tmp/mail'),
+  // Attachments are referenced by paths relative to this directory; nothing outside it can be attached
+  attachmentsDir: resolve(process.env.EMAIL_ATTACHMENTS_DIR || './attachments'),
+};
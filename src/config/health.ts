@@ -0,0 +1,10 @@
+const envInt = (name: string, fallback: number) => parseInt(process.env[name] || String(fallback));
+
+// Thresholds above which a check reports 'degraded' rather than 'ok'
+export const healthConfig = {
+  redisTimeoutMs: envInt('HEALTH_REDIS_TIMEOUT_MS', 2000),       // No PING reply in time = 'fail'
+  redisLatencyMs: envInt('HEALTH_REDIS_LATENCY_MS', 200),
+  maxBacklogAgeMs: envInt('HEALTH_MAX_BACKLOG_AGE_MS', 5 * 60_000), // Oldest job still waiting
+  heartbeatIntervalMs: envInt('WORKER_HEARTBEAT_INTERVAL_MS', 10_000),
+  workerPort: envInt('WORKER_HEALTH_PORT', 3001),
+};
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+export const IMAGE_FORMATS = ['webp', 'avif', 'jpeg'] as const;
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+// cover: crop to exactly width x height (thumbnails); inside: fit within the box, keeping the aspect ratio
+export const IMAGE_FITS = ['cover', 'inside'] as const;
+export type ImageFit = (typeof IMAGE_FITS)[number];
+
+export interface ImageVariant {
+  name: string;
+  width: number;
+  height: number;
+  fit: ImageFit;
+}
+
+// "name:WIDTHxHEIGHT[:fit],..."
+const variantList = z
+  .string()
+  .transform(value => value.split(',').map(part => part.trim()).filter(Boolean))
+  .pipe(
+    z
+      .array(
+        z
+          .string()
+          .regex(/^[\w-]+:\d{1,5}x\d{1,5}(:(cover|inside))?$/, 'Expected name:WIDTHxHEIGHT[:cover|inside]')
+          .transform((spec): ImageVariant => {
+            const [name, size, fit = 'inside'] = spec.split(':');
+            const [width, height] = size.split('x').map(Number);
+            return { name, width, height, fit: fit as ImageFit };
+          }),
+      )
+      .min(1)
+      .refine(variants => new Set(variants.map(variant => variant.name)).size === variants.length, 'Variant names must be unique'),
+  );
+
+const formatList = z
+  .string()
+  .transform(value => value.split(',').map(part => part.trim()).filter(Boolean))
+  .pipe(z.array(z.enum(IMAGE_FORMATS)).min(1));
+
+const envSchema = z.object({
+  IMAGE_VARIANTS: variantList.prefault('thumbnail:200x200:cover,medium:800x800,large:1600x1600'),
+  IMAGE_FORMATS: formatList.prefault('webp,jpeg'), // AVIF is smaller but several times slower to encode
+  IMAGE_QUALITY: z.coerce.number().int().min(1).max(100).default(80),
+  // Decompression bombs: a tiny file can declare a huge canvas
+  IMAGE_MAX_INPUT_PIXELS: z.coerce.number().int().positive().default(50_000_000),
+});
+
+const loadConfig = () => {
+  const result = envSchema.safeParse(process.env);
+  if (!result.success) {
+    const details = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid image configuration: ${details}`);
+  }
+  const env = result.data;
+  return {
+    variants: env.IMAGE_VARIANTS,
+    formats: env.IMAGE_FORMATS,
+    quality: env.IMAGE_QUALITY,
+    maxInputPixels: env.IMAGE_MAX_INPUT_PIXELS,
+  };
+};
+
+export const imageConfig = loadConfig();
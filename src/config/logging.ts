@@ -0,0 +1,28 @@
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+const parseLevel = (raw: string | undefined): LogLevel => {
+  if (!raw) {
+    return 'info';
+  }
+  if (!LOG_LEVELS.includes(raw as LogLevel)) {
+    throw new Error(`LOG_LEVEL must be one of ${LOG_LEVELS.join(', ')}`);
+  }
+  return raw as LogLevel;
+};
+
+const parseFormat = (raw: string | undefined): 'json' | 'pretty' => {
+  if (!raw) {
+    return process.env.NODE_ENV === 'production' ? 'json' : 'pretty';
+  }
+  if (raw !== 'json' && raw !== 'pretty') {
+    throw new Error('LOG_FORMAT must be json or pretty');
+  }
+  return raw;
+};
+
+// JSON lines for the log pipeline in production, human-readable lines in dev
+export const loggingConfig = {
+  level: parseLevel(process.env.LOG_LEVEL),
+  format: parseFormat(process.env.LOG_FORMAT),
+};
@@ -0,0 +1,11 @@
+const envInt = (name: string, fallback: number) => parseInt(process.env[name] || String(fallback));
+
+// Job data and return values bigger than the threshold are written to storage
+// (see src/storage) and only a reference stays in Redis
+export const payloadConfig = {
+  offloadThresholdBytes: envInt('PAYLOAD_OFFLOAD_THRESHOLD_BYTES', 16 * 1024),
+  maxRequestBytes: envInt('PAYLOAD_MAX_REQUEST_BYTES', 10 * 1024 * 1024),   // JSON body limit on the API
+  gcIntervalMs: envInt('PAYLOAD_GC_INTERVAL_MS', 10 * 60_000),
+  // Blobs younger than this are never collected: their job may not have been added yet
+  gcGraceMs: envInt('PAYLOAD_GC_GRACE_MS', 60 * 60_000),
+};
@@ -0,0 +1,27 @@
+export interface RateLimit {
+  points: number;      // Requests (routes) or jobs (queues) allowed per window
+  durationMs: number;
+}
+
+const perMinute = (points: number): RateLimit => ({ points, durationMs: 60_000 });
+
+const envInt = (name: string, fallback: number) => parseInt(process.env[name] || String(fallback));
+
+// Producer-side limits, enforced in Redis so they hold across server instances.
+// Clients are identified by API key / token subject, or by IP when anonymous.
+export const rateLimitConfig = {
+  enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+  // Requests per client per route
+  routes: {
+    default: perMinute(envInt('RATE_LIMIT_PER_MINUTE', 120)),
+    batch: perMinute(envInt('RATE_LIMIT_BATCH_PER_MINUTE', 5)),
+  } as Record<string, RateLimit>,
+  // Jobs per client per queue (a batch of 50 counts as 50)
+  queues: {
+    default: perMinute(envInt('RATE_LIMIT_QUEUE_JOBS_PER_MINUTE', 1000)),
+    email: perMinute(envInt('RATE_LIMIT_EMAIL_JOBS_PER_MINUTE', 60)),
+    image: perMinute(envInt('RATE_LIMIT_IMAGE_JOBS_PER_MINUTE', 30)),
+  } as Record<string, RateLimit>,
+  // Jobs per client per UTC day, unless the API key sets its own dailyQuota
+  dailyQuota: envInt('DAILY_JOB_QUOTA', 10_000),
+};
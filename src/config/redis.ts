@@ -1,5 +1,232 @@
-export const redisConnection = {
-  host: process.env.REDIS_HOST || 'localhost',
-  port: parseInt(process.env.REDIS_PORT || '6379'),
-  maxRetriesPerRequest: null, // Important for BullMQ
-};
\ No newline at end of file
+import { readFileSync } from 'fs';
+import { ConnectionOptions as TlsOptions } from 'tls';
+import IORedis, { Cluster, RedisOptions } from 'ioredis';
+import { z } from 'zod';
+
+export const REDIS_MODES = ['standalone', 'sentinel', 'cluster'] as const;
+export type RedisMode = (typeof REDIS_MODES)[number];
+
+export interface RedisNode {
+  host: string;
+  port: number;
+}
+
+const flag = z.enum(['true', 'false']).transform(value => value === 'true');
+
+// "host:port,host:port"
+const nodeList = z
+  .string()
+  .transform(value => value.split(',').map(part => part.trim()).filter(Boolean))
+  .pipe(
+    z
+      .array(
+        z
+          .string()
+          .regex(/^[^:\s]+:\d{1,5}$/, 'Expected host:port')
+          .transform((node): RedisNode => {
+            const [host, port] = node.split(':');
+            return { host, port: parseInt(port) };
+          }),
+      )
+      .min(1),
+  );
+
+const envSchema = z.object({
+  REDIS_URL: z.url({ protocol: /^rediss?$/, error: 'Expected a redis:// or rediss:// URL' }).optional(),
+  REDIS_MODE: z.enum(REDIS_MODES).default('standalone'),
+  REDIS_HOST: z.string().min(1).optional(),
+  REDIS_PORT: z.coerce.number().int().min(1).max(65535).optional(),
+  REDIS_USERNAME: z.string().min(1).optional(),        // ACL user (Redis 6+)
+  REDIS_PASSWORD: z.string().min(1).optional(),        // AUTH string on Memorystore
+  REDIS_DB: z.coerce.number().int().min(0).optional(),
+  REDIS_TLS: flag.optional(),                          // Implied by a rediss:// URL
+  REDIS_TLS_CA_FILE: z.string().min(1).optional(),     // e.g. the Memorystore server CA
+  REDIS_TLS_SERVERNAME: z.string().min(1).optional(),
+  REDIS_TLS_REJECT_UNAUTHORIZED: flag.default(true),
+  REDIS_SENTINELS: nodeList.optional(),
+  REDIS_SENTINEL_MASTER: z.string().min(1).optional(),
+  REDIS_SENTINEL_PASSWORD: z.string().min(1).optional(),
+  REDIS_CLUSTER_NODES: nodeList.optional(),
+  BULLMQ_PREFIX: z
+    .string()
+    .regex(/^[^:\s]+$/, 'Must not contain ":" or whitespace')
+    .optional(),
+});
+
+type RedisEnv = z.infer<typeof envSchema>;
+
+// Values from REDIS_URL; individual variables take precedence over them
+const parseUrl = (raw: string | undefined) => {
+  if (!raw) {
+    return {};
+  }
+  const url = new URL(raw);
+  const db = url.pathname.replace(/^\//, '');
+  return {
+    host: url.hostname || undefined,
+    port: url.port ? parseInt(url.port) : undefined,
+    username: url.username ? decodeURIComponent(url.username) : undefined,
+    password: url.password ? decodeURIComponent(url.password) : undefined,
+    db: db ? parseInt(db) : undefined,
+    tls: url.protocol === 'rediss:' || undefined,
+  };
+};
+
+const readCa = (path: string) => {
+  try {
+    return readFileSync(path);
+  } catch (error) {
+    throw new Error(`REDIS_TLS_CA_FILE could not be read (${path}): ${String(error)}`);
+  }
+};
+
+const buildConfig = (env: RedisEnv) => {
+  const fromUrl = parseUrl(env.REDIS_URL);
+  const mode = env.REDIS_MODE;
+  const host = env.REDIS_HOST ?? fromUrl.host ?? 'localhost';
+  const port = env.REDIS_PORT ?? fromUrl.port ?? 6379;
+  const db = env.REDIS_DB ?? fromUrl.db ?? 0;
+  const useTls = env.REDIS_TLS ?? fromUrl.tls ?? false;
+  // Cluster mode needs every key of a queue in one slot, hence the hash tag
+  const prefix = env.BULLMQ_PREFIX ?? (mode === 'cluster' ? '{bull}' : 'bull');
+
+  const problems: string[] = [];
+  if (Number.isNaN(db)) {
+    problems.push('REDIS_URL: database must be a number, e.g. redis://host:6379/0');
+  }
+  if (mode === 'sentinel' && !env.REDIS_SENTINELS) {
+    problems.push('REDIS_SENTINELS is required when REDIS_MODE=sentinel');
+  }
+  if (mode === 'sentinel' && !env.REDIS_SENTINEL_MASTER) {
+    problems.push('REDIS_SENTINEL_MASTER is required when REDIS_MODE=sentinel');
+  }
+  if (mode === 'cluster' && db !== 0) {
+    problems.push('REDIS_DB must be 0 when REDIS_MODE=cluster');
+  }
+  if (mode === 'cluster' && !/^\{[^}]+\}$/.test(prefix)) {
+    problems.push('BULLMQ_PREFIX must be a hash tag such as {bull} when REDIS_MODE=cluster');
+  }
+  if (mode !== 'sentinel' && (env.REDIS_SENTINELS || env.REDIS_SENTINEL_MASTER)) {
+    problems.push('REDIS_SENTINELS / REDIS_SENTINEL_MASTER require REDIS_MODE=sentinel');
+  }
+  if (mode !== 'cluster' && env.REDIS_CLUSTER_NODES) {
+    problems.push('REDIS_CLUSTER_NODES requires REDIS_MODE=cluster');
+  }
+  if (!useTls && env.REDIS_TLS_CA_FILE) {
+    problems.push('REDIS_TLS_CA_FILE is set but TLS is off (set REDIS_TLS=true or use rediss://)');
+  }
+  if (problems.length) {
+    throw new Error(`Invalid Redis configuration: ${problems.join('; ')}`);
+  }
+
+  const tls: TlsOptions | undefined = useTls
+    ? {
+        ...(env.REDIS_TLS_CA_FILE && { ca: readCa(env.REDIS_TLS_CA_FILE) }),
+        ...(env.REDIS_TLS_SERVERNAME && { servername: env.REDIS_TLS_SERVERNAME }),
+        rejectUnauthorized: env.REDIS_TLS_REJECT_UNAUTHORIZED,
+      }
+    : undefined;
+
+  return {
+    mode,
+    host,
+    port,
+    db,
+    username: env.REDIS_USERNAME ?? fromUrl.username,
+    password: env.REDIS_PASSWORD ?? fromUrl.password,
+    tls,
+    sentinels: env.REDIS_SENTINELS,
+    sentinelMaster: env.REDIS_SENTINEL_MASTER,
+    sentinelPassword: env.REDIS_SENTINEL_PASSWORD,
+    clusterNodes: env.REDIS_CLUSTER_NODES ?? [{ host, port }],
+    prefix,
+  };
+};
+
+const loadConfig = () => {
+  const result = envSchema.safeParse(process.env);
+  if (!result.success) {
+    const details = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid Redis configuration: ${details}`);
+  }
+  return buildConfig(result.data);
+};
+
+export type RedisConfig = ReturnType<typeof buildConfig>;
+
+// Fails at startup rather than on the first Redis command
+export const redisConfig: RedisConfig = loadConfig();
+
+export type RedisClient = IORedis | Cluster;
+
+const createConnection = (keyPrefix?: string): RedisClient => {
+  const options: RedisOptions = {
+    username: redisConfig.username,
+    password: redisConfig.password,
+    tls: redisConfig.tls,
+    maxRetriesPerRequest: null, // Important for BullMQ
+  };
+
+  switch (redisConfig.mode) {
+    case 'cluster':
+      return new Cluster(redisConfig.clusterNodes, {
+        keyPrefix,
+        redisOptions: options,
+        // Node addresses in CLUSTER SLOTS are IPs, which won't match the TLS certificate
+        ...(redisConfig.tls && { dnsLookup: (address, callback) => callback(null, address) }),
+      });
+    case 'sentinel':
+      return new IORedis({
+        ...options,
+        keyPrefix,
+        db: redisConfig.db,
+        sentinels: redisConfig.sentinels,
+        name: redisConfig.sentinelMaster,
+        sentinelPassword: redisConfig.sentinelPassword,
+        ...(redisConfig.tls && { enableTLSForSentinelMode: true, sentinelTLS: redisConfig.tls }),
+      });
+    default:
+      return new IORedis({ ...options, keyPrefix, host: redisConfig.host, port: redisConfig.port, db: redisConfig.db });
+  }
+};
+
+// One connection per process is shared by every Queue, DLQ and FlowProducer.
+// Workers and QueueEvents duplicate it for their blocking commands, and
+// pub/sub subscribers duplicate the app client.
+let bullmqConnection: RedisClient | undefined;
+
+export const getBullmqConnection = () => {
+  if (!bullmqConnection) {
+    bullmqConnection = createConnection();
+  }
+  return bullmqConnection;
+};
+
+// Spread into Queue / Worker / QueueEvents / FlowProducer options
+export const bullmqOptions = () => ({
+  connection: getBullmqConnection(),
+  prefix: redisConfig.prefix,
+});
+
+// Our own keys (webhook registrations, delivery logs, ...) live under the same
+// prefix, so environments sharing a Redis don't see each other's data. BullMQ
+// rejects ioredis key prefixes, hence a separate client.
+export const APP_KEY_PREFIX = `${redisConfig.prefix}:app:`;
+
+// Pub/sub channels aren't covered by the key prefix
+export const appChannel = (name: string) => `${APP_KEY_PREFIX}${name}`;
+
+let redisClient: RedisClient | undefined;
+
+export const getRedisClient = () => {
+  if (!redisClient) {
+    redisClient = createConnection(APP_KEY_PREFIX);
+  }
+  return redisClient;
+};
+
+export const closeRedisConnections = async () => {
+  await Promise.all([redisClient?.quit(), bullmqConnection?.quit()]);
+  redisClient = undefined;
+  bullmqConnection = undefined;
+};
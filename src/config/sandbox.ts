@@ -0,0 +1,9 @@
+const envInt = (name: string, fallback: number) => parseInt(process.env[name] || String(fallback));
+
+// Defaults for queues that run their processor in a sandbox (see `sandbox` in
+// the queue registry); a queue definition can override both limits
+export const sandboxConfig = {
+  enabled: process.env.SANDBOX_ENABLED !== 'false',     // false: run every processor in the worker process, e.g. to debug
+  memoryMb: envInt('SANDBOX_MEMORY_MB', 512),           // V8 heap per sandbox; native buffers (sharp) come on top
+  timeoutMs: envInt('SANDBOX_TIMEOUT_MS', 5 * 60_000),  // The sandbox is killed and the attempt fails
+};
@@ -0,0 +1,24 @@
+import { ScheduleConfig } from '../queues/schedules';
+
+// Repeatable jobs reconciled by the server on startup. Removing an entry here
+// removes its scheduler on the next deploy; API-created schedules are untouched.
+export const scheduleConfig: ScheduleConfig[] =
+  process.env.SCHEDULES_ENABLED === 'false'
+    ? []
+    : [
+        {
+          id: 'nightly-digest',
+          queue: 'email',
+          pattern: '0 2 * * *',
+          tz: process.env.DIGEST_TZ || 'UTC',
+          job: {
+            name: 'send-email',
+            data: {
+              to: process.env.DIGEST_RECIPIENT || 'team@example.com',
+              subject: 'Nightly digest',
+              type: 'digest',
+              priority: 'low',
+            },
+          },
+        },
+      ];
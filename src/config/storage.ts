@@ -0,0 +1,22 @@
+import { resolve } from 'path';
+
+// Only the local filesystem for now; an object store (GCS / S3) plugs in as another backend
+export const STORAGE_BACKENDS = ['local'] as const;
+export type StorageBackendName = (typeof STORAGE_BACKENDS)[number];
+
+const parseBackend = (raw: string | undefined): StorageBackendName => {
+  if (!raw) {
+    return 'local';
+  }
+  if (!STORAGE_BACKENDS.includes(raw as StorageBackendName)) {
+    throw new Error(`STORAGE_BACKEND must be one of ${STORAGE_BACKENDS.join(', ')}`);
+  }
+  return raw as StorageBackendName;
+};
+
+export const storageConfig = {
+  backend: parseBackend(process.env.STORAGE_BACKEND),
+  localDir: resolve(process.env.STORAGE_DIR || './tmp/storage'),
+  // Base URL the stored objects are served from (e.g. a CDN); results carry no URL without it
+  publicUrl: process.env.STORAGE_PUBLIC_URL?.replace(/\/+$/, ''),
+};
@@ -0,0 +1,9 @@
+// Tracing is on when an OTLP endpoint is configured (the exporter reads the
+// standard OTEL_EXPORTER_OTLP_* variables) or when forced with OTEL_TRACES_ENABLED
+const otlpConfigured = !!(process.env.OTEL_EXPORTER_OTLP_ENDPOINT || process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT);
+
+export const tracingConfig = {
+  enabled:
+    process.env.OTEL_TRACES_ENABLED !== undefined ? process.env.OTEL_TRACES_ENABLED === 'true' : otlpConfigured,
+  serviceName: process.env.OTEL_SERVICE_NAME,
+};
@@ -0,0 +1,10 @@
+const envInt = (name: string, fallback: number) => parseInt(process.env[name] || String(fallback));
+
+const split = (value: string) => value.split(',').map(part => part.trim().toLowerCase()).filter(Boolean);
+
+// Callbacks may only go to public addresses. Hosts listed in WEBHOOK_ALLOWED_HOSTS
+// skip that check, e.g. "localhost" to test against a local stub.
+export const webhookConfig = {
+  timeoutMs: envInt('WEBHOOK_TIMEOUT_MS', 10_000),
+  allowedHosts: split(process.env.WEBHOOK_ALLOWED_HOSTS ?? ''),
+};
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { queueDefinitions } from '../queues/registry';
+
+// Which queues this worker process consumes, so queue groups can be scaled and
+// placed independently (see ecosystem.config.js). CLI flags win over env:
+//   node dist/workers.js --queues=image --concurrency=image:4
+//   WORKER_QUEUES=hello,email,critical,webhook WORKER_CONCURRENCY=email:10
+// Without either, every queue runs at its registry concurrency.
+
+const QUEUE_KEYS = queueDefinitions.map(definition => definition.key) as [string, ...string[]];
+
+const split = (value: string) => value.split(',').map(part => part.trim()).filter(Boolean);
+
+const queueList = z
+  .string()
+  .transform(value => (value.trim() === 'all' ? QUEUE_KEYS : split(value)))
+  .pipe(
+    z
+      .array(z.enum(QUEUE_KEYS))
+      .min(1)
+      .transform(keys => [...new Set(keys)]),
+  );
+
+// "queue:concurrency,..."
+const concurrencyList = z
+  .string()
+  .transform(split)
+  .pipe(
+    z.array(
+      z
+        .string()
+        .regex(/^[\w-]+:\d+$/, 'Expected queue:concurrency')
+        .transform(entry => {
+          const [key, concurrency] = entry.split(':');
+          return { key, concurrency: parseInt(concurrency) };
+        })
+        .pipe(z.object({ key: z.enum(QUEUE_KEYS), concurrency: z.number().int().min(1).max(1000) })),
+    ),
+  );
+
+const schema = z.object({
+  queues: queueList.prefault('all'),
+  concurrency: concurrencyList.prefault(''),
+});
+
+// --name=value or --name value
+const readFlag = (argv: string[], name: string) => {
+  const index = argv.findIndex(arg => arg === `--${name}` || arg.startsWith(`--${name}=`));
+  if (index === -1) {
+    return undefined;
+  }
+  const arg = argv[index];
+  return arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : argv[index + 1];
+};
+
+const loadConfig = (argv: string[]) => {
+  const result = schema.safeParse({
+    queues: readFlag(argv, 'queues') ?? (process.env.WORKER_QUEUES || undefined),
+    concurrency: readFlag(argv, 'concurrency') ?? process.env.WORKER_CONCURRENCY,
+  });
+  if (!result.success) {
+    const details = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid worker configuration: ${details}`);
+  }
+
+  const { queues, concurrency } = result.data;
+  const unselected = concurrency.filter(({ key }) => !queues.includes(key));
+  if (unselected.length) {
+    throw new Error(
+      `Invalid worker configuration: concurrency set for queues this process doesn't run: ${unselected.map(({ key }) => key).join(', ')}`
+    );
+  }
+
+  return {
+    queues,
+    concurrency: Object.fromEntries(concurrency.map(({ key, concurrency }) => [key, concurrency])) as Record<string, number>,
+  };
+};
+
+export const workerConfig = loadConfig(process.argv.slice(2));
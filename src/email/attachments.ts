@@ -0,0 +1,37 @@
+import { stat } from 'fs/promises';
+import { basename, relative, resolve, isAbsolute } from 'path';
+import { emailConfig } from '../config/email';
+import { EmailDeliveryError } from './errors';
+import { EmailAttachment } from './types';
+
+export interface AttachmentReference {
+  path: string;         // Relative to EMAIL_ATTACHMENTS_DIR
+  filename?: string;    // Name shown to the recipient; defaults to the file's name
+}
+
+// True when the reference can't escape the attachments directory
+export const isSafeAttachmentPath = (path: string) => {
+  if (isAbsolute(path)) {
+    return false;
+  }
+  const inside = relative(emailConfig.attachmentsDir, resolve(emailConfig.attachmentsDir, path));
+  return !!inside && !inside.startsWith('..') && !isAbsolute(inside);
+};
+
+// A missing file is a permanent failure: retrying won't make it appear
+export const resolveAttachments = async (references: AttachmentReference[]): Promise<EmailAttachment[]> =>
+  Promise.all(
+    references.map(async reference => {
+      if (!isSafeAttachmentPath(reference.path)) {
+        throw new EmailDeliveryError(`Attachment path not allowed: ${reference.path}`, true);
+      }
+
+      const path = resolve(emailConfig.attachmentsDir, reference.path);
+      const stats = await stat(path).catch(() => undefined);
+      if (!stats?.isFile()) {
+        throw new EmailDeliveryError(`Attachment not found: ${reference.path}`, true);
+      }
+
+      return { filename: reference.filename ?? basename(path), path };
+    }),
+  );
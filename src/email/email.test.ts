@@ -0,0 +1,165 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo, createServer, Socket } from 'net';
+import { emailConfig } from '../config/email';
+import {
+  classifyEmailError,
+  createMemoryTransport,
+  createSmtpTransport,
+  EmailDeliveryError,
+  EmailMessage,
+  EmailTransport,
+  renderEmail,
+  throttleDelayMs,
+} from '.';
+
+const message = (to: string): EmailMessage => ({
+  from: 'BullMQ Demo <no-reply@example.com>',
+  to,
+  subject: 'Welcome, Ada!',
+  text: 'Hi Ada',
+  attachments: [],
+});
+
+// Minimal SMTP sink: accepts everything except recipients whose local part
+// asks for a reply, e.g. "reply-550@example.com"
+const startSmtpSink = async () => {
+  const messages: string[] = [];
+  const server = createServer((socket: Socket) => {
+    let buffer = '';
+    let data: string | undefined;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply('220 sink ESMTP');
+    socket.on('data', chunk => {
+      buffer += chunk;
+      let index;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (data !== undefined) {
+          if (line === '.') {
+            messages.push(data);
+            data = undefined;
+            reply('250 2.0.0 queued');
+          } else {
+            data += `${line}\n`;
+          }
+          continue;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        const code = line.match(/reply-(\d{3})@/)?.[1];
+        if (command === 'RCPT' && code) {
+          reply(`${code} rejected by sink`);
+        } else if (command === 'DATA') {
+          data = '';
+          reply('354 go ahead');
+        } else if (command === 'QUIT') {
+          reply('221 bye');
+          socket.end();
+        } else {
+          reply('250 OK');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, messages, port: (server.address() as AddressInfo).port };
+};
+
+describe('SMTP transport against a local sink', () => {
+  let sink: Awaited<ReturnType<typeof startSmtpSink>>;
+  let transport: EmailTransport;
+
+  before(async () => {
+    sink = await startSmtpSink();
+    transport = createSmtpTransport({ ...emailConfig.smtp, host: '127.0.0.1', port: sink.port, timeoutMs: 2000 });
+  });
+
+  after(async () => {
+    await transport.close();
+    await new Promise<void>(resolve => sink.server.close(() => resolve()));
+  });
+
+  it('delivers the message', async () => {
+    const result = await transport.send(message('ada@example.com'));
+
+    assert.deepEqual(result.accepted, ['ada@example.com']);
+    assert.match(result.response!, /^250/);
+    assert.match(sink.messages[sink.messages.length - 1], /Subject: Welcome, Ada!/);
+  });
+
+  it('classifies a hard bounce as permanent', async () => {
+    const error = await transport.send(message('reply-550@example.com')).catch(classifyEmailError);
+
+    assert.ok(error instanceof EmailDeliveryError);
+    assert.equal(error.permanent, true);
+    assert.equal(error.responseCode, 550);
+  });
+
+  it('classifies a temporary rejection as transient', async () => {
+    const error = await transport.send(message('reply-452@example.com')).catch(classifyEmailError);
+
+    assert.ok(error instanceof EmailDeliveryError);
+    assert.equal(error.permanent, false);
+    assert.equal(error.responseCode, 452);
+    assert.equal(throttleDelayMs(error), undefined);
+  });
+
+  it('backs off when the server throttles', async () => {
+    const error = await transport.send(message('reply-421@example.com')).catch(classifyEmailError);
+
+    assert.ok(error instanceof EmailDeliveryError);
+    assert.equal(error.permanent, false);
+    assert.equal(throttleDelayMs(error), 60_000);
+  });
+});
+
+describe('classifyEmailError', () => {
+  it('treats failures without an SMTP reply as transient', () => {
+    assert.equal(classifyEmailError(Object.assign(new Error('timeout'), { code: 'ETIMEDOUT' })).permanent, false);
+    assert.equal(classifyEmailError(Object.assign(new Error('bad address'), { code: 'EENVELOPE' })).permanent, true);
+  });
+
+  it('reads the back-off hint from a throttling reply', () => {
+    const throttled = (message: string) => new EmailDeliveryError(message, false, undefined, 421);
+
+    assert.equal(throttleDelayMs(throttled('421 4.7.0 Rate limited, try again in 30 seconds')), 30_000);
+    assert.equal(throttleDelayMs(throttled('421 4.7.0 Try again in 2 minutes')), 120_000);
+  });
+
+  it('leaves a greylisted recipient to ordinary retries', () => {
+    const greylisted = new EmailDeliveryError('450 4.2.0 Greylisted, try again in 5 minutes', false, undefined, 450);
+
+    assert.equal(throttleDelayMs(greylisted), undefined);
+  });
+});
+
+describe('renderEmail', () => {
+  it('fills placeholders and escapes them in HTML', () => {
+    const content = renderEmail('welcome', 'ada@example.com', { name: '<Ada>' });
+
+    assert.equal(content.subject, 'Welcome, <Ada>!');
+    assert.match(content.text, /^Hi <Ada>,/);
+    assert.match(content.html!, /Hi &#60;Ada&#62;,/);
+  });
+
+  it('fails permanently on unknown types and missing variables', () => {
+    assert.throws(() => renderEmail('nope', 'ada@example.com', {}), { permanent: true });
+    assert.throws(() => renderEmail('welcome', 'ada@example.com', {}), /Missing template variables: name/);
+  });
+});
+
+describe('memory transport', () => {
+  it('keeps sent messages for assertions', async () => {
+    const transport = createMemoryTransport();
+
+    await transport.send(message('ada@example.com'));
+
+    assert.equal(transport.sent.length, 1);
+    assert.match(transport.sent[0].raw, /To: ada@example.com/);
+  });
+});
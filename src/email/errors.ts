@@ -0,0 +1,48 @@
+// A delivery failure, classified so the worker knows whether a retry can help
+export class EmailDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly permanent: boolean,
+    readonly code?: string,
+    readonly responseCode?: number,
+  ) {
+    super(message);
+    this.name = 'EmailDeliveryError';
+  }
+}
+
+// Nodemailer error codes that no retry will fix: bad addresses or an unbuildable message
+const PERMANENT_CODES = ['EENVELOPE', 'EMESSAGE', 'EFILEACCESS', 'EMAXRECIPIENTS'];
+
+// 5xx replies are hard failures (e.g. 550 mailbox unavailable), 4xx are
+// temporary (e.g. 421 service unavailable, 452 mailbox full). Anything without
+// an SMTP reply is treated as transient: timeouts, refused connections, TLS and
+// auth problems all need retries (or a DLQ replay) rather than a dropped email.
+export const classifyEmailError = (error: unknown): EmailDeliveryError => {
+  if (error instanceof EmailDeliveryError) {
+    return error;
+  }
+
+  const { message, code, responseCode } = error as { message?: string; code?: string; responseCode?: number };
+  const permanent = responseCode ? responseCode >= 500 : !!code && PERMANENT_CODES.includes(code);
+  return new EmailDeliveryError(message ?? String(error), permanent, code, responseCode);
+};
+
+// 421 (too many connections / messages) is how SMTP servers throttle senders.
+// 450 and other 4xx replies concern one recipient (greylisting, an unavailable
+// mailbox) and are retried as ordinary failures. Returns how long to back off,
+// from a hint in the reply ("try again in 30 seconds") when there is one.
+const THROTTLE_CODES = [421];
+const DEFAULT_THROTTLE_MS = 60_000;
+const RETRY_HINT = /(\d+)\s*(s|secs?|seconds?|m|mins?|minutes?)\b/i;
+
+export const throttleDelayMs = (error: EmailDeliveryError): number | undefined => {
+  if (!error.responseCode || !THROTTLE_CODES.includes(error.responseCode)) {
+    return undefined;
+  }
+  const hint = error.message.match(RETRY_HINT);
+  if (!hint) {
+    return DEFAULT_THROTTLE_MS;
+  }
+  return parseInt(hint[1]) * (hint[2].toLowerCase().startsWith('m') ? 60_000 : 1000);
+};
@@ -0,0 +1,48 @@
+import { emailConfig } from '../config/email';
+import { classifyEmailError } from './errors';
+import { EmailMessage, EmailTransport } from './types';
+import { createSmtpTransport } from './transports/smtp';
+import { createFileTransport } from './transports/file';
+import { createMemoryTransport } from './transports/memory';
+
+export * from './types';
+export * from './errors';
+export * from './templates';
+export * from './attachments';
+export { createSmtpTransport, createFileTransport, createMemoryTransport };
+export type { MemoryTransport, SentEmail } from './transports/memory';
+
+const factories: Record<string, () => EmailTransport> = {
+  smtp: createSmtpTransport,
+  file: createFileTransport,
+  memory: createMemoryTransport,
+};
+
+// One transport per process, chosen by EMAIL_TRANSPORT
+let transport: EmailTransport | undefined;
+
+export const getEmailTransport = () => {
+  if (!transport) {
+    transport = factories[emailConfig.transport]();
+  }
+  return transport;
+};
+
+// Swap in another transport, e.g. a memory transport in tests
+export const setEmailTransport = (replacement: EmailTransport) => {
+  transport = replacement;
+};
+
+export const closeEmailTransport = async () => {
+  await transport?.close();
+  transport = undefined;
+};
+
+// Every failure comes back as an EmailDeliveryError saying whether to retry
+export const sendEmail = async (message: EmailMessage) => {
+  try {
+    return await getEmailTransport().send(message);
+  } catch (error) {
+    throw classifyEmailError(error);
+  }
+};
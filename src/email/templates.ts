@@ -0,0 +1,75 @@
+import { EmailDeliveryError } from './errors';
+
+export interface EmailTemplate {
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export type TemplateVariables = Record<string, string | number | boolean>;
+
+// Keyed by the job's `type`. {{name}} placeholders are filled from the job's
+// `variables`, plus the built-ins `to` and `date`.
+export const emailTemplates: Record<string, EmailTemplate> = {
+  notification: {
+    subject: 'You have a new notification',
+    text: 'Hi {{to}},\n\nThere is new activity on your account.\n',
+    html: '<p>Hi {{to}},</p><p>There is new activity on your account.</p>',
+  },
+  welcome: {
+    subject: 'Welcome, {{name}}!',
+    text: 'Hi {{name}},\n\nThanks for signing up. Your account is ready.\n',
+    html: '<p>Hi {{name}},</p><p>Thanks for signing up. Your account is ready.</p>',
+  },
+  digest: {
+    subject: 'Your digest for {{date}}',
+    text: 'Hi {{to}},\n\nHere is what happened up to {{date}}.\n',
+    html: '<p>Hi {{to}},</p><p>Here is what happened up to {{date}}.</p>',
+  },
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const builtIns = (to: string): TemplateVariables => ({ to, date: new Date().toISOString().slice(0, 10) });
+
+// Placeholders used by a template (and subject override) that the variables don't provide
+export const missingVariables = (type: string, variables: TemplateVariables, subject?: string) => {
+  const template = emailTemplates[type];
+  if (!template) {
+    return [];
+  }
+
+  const available = new Set([...Object.keys(builtIns('')), ...Object.keys(variables)]);
+  const used = [subject ?? template.subject, template.text, template.html ?? '']
+    .flatMap(source => [...source.matchAll(PLACEHOLDER)].map(match => match[1]));
+  return [...new Set(used)].filter(name => !available.has(name));
+};
+
+const render = (source: string, variables: TemplateVariables, escape = false) =>
+  source.replace(PLACEHOLDER, (_, name: string) => {
+    const value = String(variables[name]);
+    return escape ? escapeHtml(value) : value;
+  });
+
+// A subject given with the job replaces the template's and may use the same placeholders
+export const renderEmail = (type: string, to: string, variables: TemplateVariables, subject?: string) => {
+  const template = emailTemplates[type];
+  if (!template) {
+    throw new EmailDeliveryError(`Unknown email type "${type}"`, true);
+  }
+
+  const missing = missingVariables(type, variables, subject);
+  if (missing.length) {
+    throw new EmailDeliveryError(`Missing template variables: ${missing.join(', ')}`, true);
+  }
+
+  const values = { ...builtIns(to), ...variables };
+  return {
+    subject: render(subject ?? template.subject, values),
+    text: render(template.text, values),
+    ...(template.html && { html: render(template.html, values, true) }),
+  };
+};
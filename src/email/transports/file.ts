@@ -0,0 +1,23 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createTransport } from 'nodemailer';
+import { emailConfig } from '../../config/email';
+import { EmailTransport } from '../types';
+
+// Builds the full MIME message (attachments included) and writes it as an .eml
+// file, e.g. for inspecting output without an SMTP server
+export const createFileTransport = (dir = emailConfig.fileDir): EmailTransport => {
+  const transporter = createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    name: 'file',
+    send: async message => {
+      const info = await transporter.sendMail(message);
+      await mkdir(dir, { recursive: true });
+      const file = join(dir, `${Date.now()}-${info.messageId.replace(/[^\w.-]/g, '')}.eml`);
+      await writeFile(file, info.message as Buffer);
+      return { messageId: info.messageId, accepted: [message.to], rejected: [], response: file };
+    },
+    close: async () => {},
+  };
+};
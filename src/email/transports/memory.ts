@@ -0,0 +1,31 @@
+import { createTransport } from 'nodemailer';
+import { EmailMessage, EmailTransport } from '../types';
+
+export interface SentEmail {
+  messageId: string;
+  message: EmailMessage;
+  raw: string;          // Full MIME source
+}
+
+export interface MemoryTransport extends EmailTransport {
+  readonly sent: SentEmail[];
+}
+
+// Keeps every message in-process for assertions in tests
+export const createMemoryTransport = (): MemoryTransport => {
+  const transporter = createTransport({ streamTransport: true, buffer: true });
+  const sent: SentEmail[] = [];
+
+  return {
+    name: 'memory',
+    sent,
+    send: async message => {
+      const info = await transporter.sendMail(message);
+      sent.push({ messageId: info.messageId, message, raw: (info.message as Buffer).toString() });
+      return { messageId: info.messageId, accepted: [message.to], rejected: [] };
+    },
+    close: async () => {
+      sent.length = 0;
+    },
+  };
+};
@@ -0,0 +1,33 @@
+import { createTransport } from 'nodemailer';
+import { emailConfig } from '../../config/email';
+import { EmailTransport } from '../types';
+
+// Pooled SMTP connections, reused across jobs in this worker process
+export const createSmtpTransport = (config = emailConfig.smtp): EmailTransport => {
+  const transporter = createTransport({
+    pool: true,
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    connectionTimeout: config.timeoutMs,
+    greetingTimeout: config.timeoutMs,
+    socketTimeout: config.timeoutMs,
+  });
+
+  return {
+    name: 'smtp',
+    send: async message => {
+      const info = await transporter.sendMail(message);
+      return {
+        messageId: info.messageId,
+        accepted: info.accepted.map(String),
+        rejected: info.rejected.map(String),
+        response: info.response,
+      };
+    },
+    close: async () => {
+      transporter.close();
+    },
+  };
+};
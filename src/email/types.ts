@@ -0,0 +1,27 @@
+export interface EmailAttachment {
+  filename: string;
+  path: string;         // Absolute, already checked to be inside the attachments directory
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments: EmailAttachment[];
+  headers?: Record<string, string>;
+}
+
+export interface DeliveryResult {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+  response?: string;    // Final SMTP reply, or where the message was written
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<DeliveryResult>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,102 @@
+import { Queue } from 'bullmq';
+import { getRedisClient } from '../config/redis';
+import { healthConfig } from '../config/health';
+import { queueDefinitions, getQueue } from '../queues';
+import { readWorkerHeartbeats } from './heartbeat';
+
+export type HealthStatus = 'ok' | 'degraded' | 'fail';
+
+export interface CheckResult {
+  status: HealthStatus;
+  [detail: string]: unknown;
+}
+
+const SEVERITY: HealthStatus[] = ['ok', 'degraded', 'fail'];
+
+export const worstStatus = (statuses: HealthStatus[]): HealthStatus =>
+  statuses.reduce((worst, status) => (SEVERITY.indexOf(status) > SEVERITY.indexOf(worst) ? status : worst), 'ok');
+
+// ioredis queues commands while disconnected, so a dead Redis never answers
+// rather than erroring; give up after a deadline
+const withTimeout = <T>(promise: Promise<T>, ms: number) =>
+  Promise.race([
+    promise,
+    new Promise<never>((_, reject) => setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms).unref()),
+  ]);
+
+export const checkRedis = async (): Promise<CheckResult> => {
+  const startedAt = Date.now();
+  try {
+    await withTimeout(getRedisClient().ping(), healthConfig.redisTimeoutMs);
+    const latencyMs = Date.now() - startedAt;
+    return { status: latencyMs > healthConfig.redisLatencyMs ? 'degraded' : 'ok', latencyMs };
+  } catch (error) {
+    return { status: 'fail', latencyMs: Date.now() - startedAt, error: String(error) };
+  }
+};
+
+// Age of the oldest job that is ready to run but not picked up yet
+const oldestWaitingAgeMs = async (queue: Queue) => {
+  const jobs = await queue.getJobs(['waiting', 'prioritized'], 0, 0, true);
+  const timestamps = jobs.filter(Boolean).map(job => job.timestamp + (job.delay ?? 0));
+  return timestamps.length ? Math.max(0, Date.now() - Math.min(...timestamps)) : 0;
+};
+
+// A paused queue, a queue nobody consumes or a stale backlog degrades the
+// service but doesn't stop the server accepting jobs
+export const checkQueues = async (): Promise<CheckResult> => {
+  const heartbeats = await readWorkerHeartbeats();
+
+  const queues = await Promise.all(
+    queueDefinitions.map(async definition => {
+      const queue = getQueue(definition.key)!;
+      const [paused, backlog, backlogAgeMs] = await Promise.all([
+        queue.isPaused(),
+        queue.getJobCountByTypes('waiting', 'prioritized'),
+        oldestWaitingAgeMs(queue),
+      ]);
+      const workers = heartbeats.filter(heartbeat => heartbeat.queues.includes(definition.key)).length;
+
+      const problems = [
+        paused && 'paused',
+        workers === 0 && 'no workers',
+        backlogAgeMs > healthConfig.maxBacklogAgeMs && `oldest waiting job is ${Math.round(backlogAgeMs / 1000)}s old`,
+      ].filter((problem): problem is string => !!problem);
+
+      return [
+        definition.key,
+        {
+          status: problems.length ? 'degraded' : 'ok',
+          paused,
+          workers,
+          backlog,
+          backlogAgeMs,
+          ...(problems.length && { problems }),
+        } satisfies CheckResult,
+      ] as const;
+    }),
+  );
+
+  return {
+    status: worstStatus(queues.map(([, result]) => result.status)),
+    workerProcesses: heartbeats.length,
+    queues: Object.fromEntries(queues),
+  };
+};
+
+// Deep report for /health; queue checks are skipped when Redis is unreachable
+export const runHealthChecks = async () => {
+  const redis = await checkRedis();
+  const queues: CheckResult =
+    redis.status === 'fail'
+      ? { status: 'fail', error: 'Redis unreachable' }
+      : await withTimeout(checkQueues(), healthConfig.redisTimeoutMs).catch(error => ({
+          status: 'fail' as const,
+          error: String(error),
+        }));
+
+  return {
+    status: worstStatus([redis.status, queues.status]),
+    checks: { redis, queues },
+  };
+};
@@ -0,0 +1,60 @@
+import { hostname } from 'os';
+import { getRedisClient } from '../config/redis';
+import { healthConfig } from '../config/health';
+import { logger } from '../logging/logger';
+
+// Queue.getWorkers() relies on CLIENT SETNAME, which Memorystore doesn't support,
+// so each worker process announces itself in a hash instead (SCAN doesn't span
+// a Redis Cluster); entries older than three intervals count as gone
+const HEARTBEATS_KEY = 'health:workers';
+const PROCESS_ID = `${hostname()}:${process.pid}`;
+
+export interface WorkerHeartbeat {
+  id: string;
+  pid: number;
+  host: string;
+  queues: string[];
+  startedAt: string;
+  lastSeenAt: string;
+}
+
+// Beats until the returned stop function is called
+export const startWorkerHeartbeat = (queues: string[]) => {
+  const startedAt = new Date().toISOString();
+
+  const beat = async () => {
+    const heartbeat: WorkerHeartbeat = {
+      id: PROCESS_ID,
+      pid: process.pid,
+      host: hostname(),
+      queues,
+      startedAt,
+      lastSeenAt: new Date().toISOString(),
+    };
+    try {
+      await getRedisClient().hset(HEARTBEATS_KEY, PROCESS_ID, JSON.stringify(heartbeat));
+    } catch (err) {
+      logger.error('Could not publish heartbeat', { component: 'worker', err });
+    }
+  };
+
+  beat();
+  const timer = setInterval(beat, healthConfig.heartbeatIntervalMs);
+
+  return async () => {
+    clearInterval(timer);
+    await getRedisClient().hdel(HEARTBEATS_KEY, PROCESS_ID);
+  };
+};
+
+export const readWorkerHeartbeats = async (): Promise<WorkerHeartbeat[]> => {
+  const redis = getRedisClient();
+  const heartbeats: WorkerHeartbeat[] = Object.values(await redis.hgetall(HEARTBEATS_KEY)).map(value => JSON.parse(value));
+  const cutoff = Date.now() - healthConfig.heartbeatIntervalMs * 3;
+
+  const stale = heartbeats.filter(heartbeat => Date.parse(heartbeat.lastSeenAt) < cutoff);
+  if (stale.length) {
+    await redis.hdel(HEARTBEATS_KEY, ...stale.map(heartbeat => heartbeat.id));
+  }
+  return heartbeats.filter(heartbeat => !stale.includes(heartbeat));
+};
@@ -0,0 +1,58 @@
+import { createServer, Server, ServerResponse } from 'http';
+import { Worker } from 'bullmq';
+import { checkRedis, worstStatus, CheckResult } from './checks';
+import { logger } from '../logging/logger';
+
+const send = (res: ServerResponse, status: number, body: object) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// Minimal HTTP endpoint for the worker process (no Express): PM2 or a load
+// balancer probes /health/live, /health/ready or /health. In PM2 cluster mode
+// the instances share the port, so each probe hits one of them.
+export const startWorkerHealthServer = (port: number, workers: Map<string, Worker>): Server => {
+  const checkWorkers = (): CheckResult => {
+    const queues = Object.fromEntries(
+      [...workers].map(([key, worker]) => [
+        key,
+        {
+          running: worker.isRunning(),
+          paused: worker.isPaused(),
+          concurrency: worker.concurrency,
+        },
+      ]),
+    );
+    const stopped = Object.values(queues).some(queue => !queue.running);
+    return { status: stopped ? 'fail' : 'ok', queues };
+  };
+
+  const server = createServer(async (req, res) => {
+    const path = req.url?.split('?')[0];
+
+    if (path === '/health/live') {
+      return send(res, 200, { status: 'ok', pid: process.pid, uptimeSeconds: Math.round(process.uptime()) });
+    }
+
+    if (path === '/health' || path === '/health/ready') {
+      const checks = { redis: await checkRedis(), workers: checkWorkers() };
+      const status = worstStatus([checks.redis.status, checks.workers.status]);
+      return send(res, status === 'fail' ? 503 : 200, {
+        status,
+        pid: process.pid,
+        timestamp: new Date().toISOString(),
+        checks,
+      });
+    }
+
+    send(res, 404, { error: 'Not found' });
+  });
+
+  server.on('error', err => {
+    logger.error('Health endpoint failed', { component: 'worker', port, err });
+  });
+  server.listen(port, () => {
+    logger.info('Health endpoint listening', { component: 'worker', port });
+  });
+  return server;
+};
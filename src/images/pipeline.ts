@@ -0,0 +1,87 @@
+import sharp, { Sharp } from 'sharp';
+import { ImageFormat, ImageVariant, imageConfig } from '../config/images';
+
+// What we accept as input; anything else sharp may decode (SVG, PDF, raw) is refused
+export const INPUT_FORMATS = ['jpeg', 'png', 'webp', 'avif', 'heif', 'gif', 'tiff'];
+
+export const CONTENT_TYPES: Record<ImageFormat, string> = {
+  webp: 'image/webp',
+  avif: 'image/avif',
+  jpeg: 'image/jpeg',
+};
+
+export const EXTENSIONS: Record<ImageFormat, string> = {
+  webp: 'webp',
+  avif: 'avif',
+  jpeg: 'jpg',
+};
+
+// The input is corrupt, truncated or not an image we handle. The same bytes
+// will fail the same way, so the job should not be retried.
+export class InvalidImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidImageError';
+  }
+}
+
+export interface ImageInfo {
+  format: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+export interface RenderedImage {
+  data: Buffer;
+  format: ImageFormat;
+  width: number;
+  height: number;
+}
+
+const load = (input: Buffer): Sharp =>
+  sharp(input, { limitInputPixels: imageConfig.maxInputPixels, failOn: 'warning' });
+
+const encoders: Record<ImageFormat, (image: Sharp) => Sharp> = {
+  webp: image => image.webp({ quality: imageConfig.quality }),
+  avif: image => image.avif({ quality: imageConfig.quality }),
+  // JPEG has no alpha channel: transparent areas become white rather than black
+  jpeg: image => image.flatten({ background: '#ffffff' }).jpeg({ quality: imageConfig.quality, mozjpeg: true }),
+};
+
+export const probeImage = async (input: Buffer): Promise<ImageInfo> => {
+  const metadata = await load(input)
+    .metadata()
+    .catch(error => {
+      throw new InvalidImageError(`Unreadable image: ${error.message}`);
+    });
+
+  if (!metadata.format || !INPUT_FORMATS.includes(metadata.format)) {
+    throw new InvalidImageError(`Unsupported image format: ${metadata.format ?? 'unknown'}`);
+  }
+
+  // Orientations 5-8 are stored rotated by 90 degrees
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  return {
+    format: metadata.format,
+    width: rotated ? metadata.height : metadata.width,
+    height: rotated ? metadata.width : metadata.height,
+    bytes: input.length,
+  };
+};
+
+// Applies the EXIF orientation, then drops all metadata (EXIF, GPS, XMP, ICC):
+// sharp only copies it to the output when asked to. Images are never enlarged.
+export const renderVariant = async (input: Buffer, variant: ImageVariant, format: ImageFormat): Promise<RenderedImage> => {
+  const image = load(input)
+    .autoOrient()
+    .resize({ width: variant.width, height: variant.height, fit: variant.fit, withoutEnlargement: true });
+
+  const { data, info } = await encoders[format](image)
+    .toBuffer({ resolveWithObject: true })
+    .catch(error => {
+      throw new InvalidImageError(`Could not process image: ${error.message}`);
+    });
+
+  return { data, format, width: info.width, height: info.height };
+};
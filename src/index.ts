@@ -3,34 +3,32 @@ import { Queue, Worker, QueueEvents } from "bullmq";
 import { createBullBoard } from "@bull-board/api";
 import { BullMQAdapter } from "@bull-board/api/bullMQAdapter";
 import { ExpressAdapter } from "@bull-board/express";
+import { bullmqOptions, closeRedisConnections } from "./config/redis";
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-// Redis connection config
-const redisConnection = {
-  host: "localhost",
-  port: 6379,
-};
+// Redis connection config (REDIS_URL / REDIS_* env vars, see src/config/redis.ts)
+const redisConnection = bullmqOptions();
 
 // 1. Simple Hello Queue
 const helloQueue = new Queue("hello-queue", {
-  connection: redisConnection,
+  ...redisConnection,
 });
 
 // 2. Email Queue (with priority)
 const emailQueue = new Queue("email-queue", {
-  connection: redisConnection,
+  ...redisConnection,
 });
 
 // 3. Image Processing Queue (with delays)
 const imageQueue = new Queue("image-queue", {
-  connection: redisConnection,
+  ...redisConnection,
 });
 
 // 4. Critical Jobs Queue (with retry logic)
 const criticalQueue = new Queue("critical-queue", {
-  connection: redisConnection,
+  ...redisConnection,
   defaultJobOptions: {
     attempts: 3,
     backoff: {
@@ -45,27 +43,27 @@ const criticalQueue = new Queue("critical-queue", {
 // ==========================================
 
 const helloEvents = new QueueEvents("hello-queue", {
-  connection: redisConnection,
+  ...redisConnection,
 });
 helloEvents.on("completed", ({ jobId }) => {
   console.log(`[HELLO-QUEUE] Job ${jobId} completed`);
 });
 
 const emailEvents = new QueueEvents("email-queue", {
-  connection: redisConnection,
+  ...redisConnection,
 });
 emailEvents.on("completed", ({ jobId }) => {
   console.log(`[EMAIL-QUEUE] Job ${jobId} completed`);
 });
 const imageEvents = new QueueEvents("image-queue", {
-  connection: redisConnection,
+  ...redisConnection,
 });
 imageEvents.on("completed", ({ jobId }) => {
   console.log(`[IMAGE-QUEUE] Job ${jobId} completed`);
 });
 
 const criticalEvents = new QueueEvents("critical-queue", {
-  connection: redisConnection,
+  ...redisConnection,
 });
 criticalEvents.on("completed", ({ jobId }) => {
   console.log(`[CRITICAL-QUEUE] Job ${jobId} completed`);
@@ -89,7 +87,7 @@ const helloWorker = new Worker(
       processedAt: new Date().toISOString(),
     };
   },
-  { connection: redisConnection }
+  redisConnection
 );
 
 // 2. Email Worker - With priority handling
@@ -110,7 +108,7 @@ const emailWorker = new Worker(
       sentAt: new Date().toISOString(),
     };
   },
-  { connection: redisConnection, concurrency: 3 }
+  { ...redisConnection, concurrency: 3 }
 );
 
 // 3. Image Worker - Simulates failures
@@ -133,7 +131,7 @@ const imageWorker = new Worker(
       processedAt: new Date().toISOString(),
     };
   },
-  { connection: redisConnection }
+  redisConnection
 );
 
 // 4. Critical Worker - With retries
@@ -157,7 +155,7 @@ const criticalWorker = new Worker(
       processedAt: new Date().toISOString(),
     };
   },
-  { connection: redisConnection }
+  redisConnection
 );
 
 // Worker event listeners
@@ -448,6 +446,7 @@ const gracefulShutdown = async () => {
     imageQueue.close(),
     criticalQueue.close(),
   ]);
+  await closeRedisConnections();
 
   console.log("✅ All workers and queues closed");
   process.exit(0);
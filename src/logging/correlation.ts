@@ -0,0 +1,24 @@
+import { Job } from 'bullmq';
+import { logger, LogFields } from './logger';
+import { currentAttempt } from '../queues/jobs';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// BullMQ stores job options it doesn't know about as-is, so the request ID
+// travels with the job through retries, DLQ replays and webhook deliveries
+export interface CorrelationOptions {
+  requestId?: string;
+}
+
+export const requestIdOf = (job: Job): string | undefined => (job.opts as CorrelationOptions).requestId;
+
+// Logger for everything a worker does on behalf of a job
+export const jobLogger = (job: Job, bindings: LogFields = {}) =>
+  logger.child({
+    component: 'worker',
+    queue: job.queueName,
+    jobId: job.id,
+    attempt: currentAttempt(job),
+    requestId: requestIdOf(job),
+    ...bindings,
+  });
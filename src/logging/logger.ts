@@ -0,0 +1,70 @@
+import { hostname } from 'os';
+import { loggingConfig, LOG_LEVELS, LogLevel } from '../config/logging';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(bindings: LogFields): Logger;
+}
+
+const PRETTY_LEVELS: Record<LogLevel, string> = {
+  debug: '🐛 DEBUG',
+  info: 'ℹ️  INFO ',
+  warn: '⚠️  WARN ',
+  error: '🔥 ERROR',
+};
+
+const minLevel = LOG_LEVELS.indexOf(loggingConfig.level);
+
+// Errors don't survive JSON.stringify; keep what's useful for debugging
+const serializeValue = (value: unknown): unknown =>
+  value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+
+const serializeFields = (fields: LogFields) =>
+  Object.fromEntries(
+    Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, serializeValue(value)]),
+  );
+
+const formatPretty = (level: LogLevel, message: string, fields: LogFields) => {
+  const { pid, host, component, ...rest } = fields;
+  const time = new Date().toISOString().slice(11, 23);
+  const stack = Object.values(rest).find((value): value is { stack: string } =>
+    typeof (value as { stack?: unknown })?.stack === 'string',
+  )?.stack;
+  const context = Object.entries(rest)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(' ');
+
+  return `${time} ${PRETTY_LEVELS[level]} [${component ?? 'app'}:${pid}] ${message}${context ? `  ${context}` : ''}${stack ? `\n${stack}` : ''}`;
+};
+
+const write = (level: LogLevel, message: string, fields: LogFields) => {
+  if (LOG_LEVELS.indexOf(level) < minLevel) {
+    return;
+  }
+
+  const serialized = serializeFields(fields);
+  const line =
+    loggingConfig.format === 'json'
+      ? JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...serialized })
+      : formatPretty(level, message, serialized);
+
+  (level === 'error' || level === 'warn' ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+export const createLogger = (bindings: LogFields = {}): Logger => ({
+  debug: (message, fields) => write('debug', message, { ...bindings, ...fields }),
+  info: (message, fields) => write('info', message, { ...bindings, ...fields }),
+  warn: (message, fields) => write('warn', message, { ...bindings, ...fields }),
+  error: (message, fields) => write('error', message, { ...bindings, ...fields }),
+  child: childBindings => createLogger({ ...bindings, ...childBindings }),
+});
+
+// Every line carries the host and PID so lines from PM2 instances can be told apart
+export const logger = createLogger({ pid: process.pid, host: hostname() });
@@ -0,0 +1,43 @@
+import { AggregatorRegistry, Gauge, PrometheusContentType, Registry, collectDefaultMetrics } from 'prom-client';
+import { queues } from '../queues';
+import { JOB_STATES } from '../queues/jobs';
+import { readWorkerSnapshots } from './store';
+
+export const serverRegistry = new Registry();
+collectDefaultMetrics({ register: serverRegistry });
+
+new Gauge({
+  name: 'bullmq_queue_jobs',
+  help: 'Jobs per queue and state',
+  labelNames: ['queue', 'state'],
+  registers: [serverRegistry],
+  async collect() {
+    this.reset();
+    for (const [key, queue] of Object.entries(queues)) {
+      const counts = await queue.getJobCounts(...JOB_STATES);
+      for (const state of JOB_STATES) {
+        this.set({ queue: key, state }, counts[state] ?? 0);
+      }
+    }
+  },
+});
+
+new Gauge({
+  name: 'bullmq_queue_paused',
+  help: 'Whether the queue is paused (1) or not (0)',
+  labelNames: ['queue'],
+  registers: [serverRegistry],
+  async collect() {
+    for (const [key, queue] of Object.entries(queues)) {
+      this.set({ queue: key }, (await queue.isPaused()) ? 1 : 0);
+    }
+  },
+});
+
+// Server-side queue gauges plus every live worker's snapshot (series are labelled by worker)
+export const renderMetrics = async () => {
+  const workerRegistry = AggregatorRegistry.aggregate<PrometheusContentType>(await readWorkerSnapshots());
+  return Registry.merge([serverRegistry, workerRegistry]).metrics();
+};
+
+export const metricsContentType = serverRegistry.contentType;
@@ -0,0 +1,35 @@
+import { getRedisClient } from '../config/redis';
+
+// Worker processes have no HTTP port, so each one publishes a snapshot of its
+// registry to Redis and the server aggregates them on scrape. Snapshots live in
+// one hash (SCAN doesn't span a Redis Cluster) and expire by timestamp.
+const SNAPSHOTS_KEY = 'metrics:workers';
+
+interface StoredSnapshot {
+  expiresAt: number;
+  snapshot: object[];
+}
+
+export const publishWorkerSnapshot = async (processId: string, snapshot: object[], ttlSeconds: number) => {
+  const stored: StoredSnapshot = { expiresAt: Date.now() + ttlSeconds * 1000, snapshot };
+  await getRedisClient().hset(SNAPSHOTS_KEY, processId, JSON.stringify(stored));
+};
+
+export const removeWorkerSnapshot = async (processId: string) => {
+  await getRedisClient().hdel(SNAPSHOTS_KEY, processId);
+};
+
+// Snapshots of processes that died without cleaning up are dropped here
+export const readWorkerSnapshots = async (): Promise<object[][]> => {
+  const redis = getRedisClient();
+  const entries = Object.entries(await redis.hgetall(SNAPSHOTS_KEY)).map(
+    ([processId, value]) => [processId, JSON.parse(value) as StoredSnapshot] as const,
+  );
+
+  const expired = entries.filter(([, stored]) => stored.expiresAt < Date.now()).map(([processId]) => processId);
+  if (expired.length) {
+    await redis.hdel(SNAPSHOTS_KEY, ...expired);
+  }
+
+  return entries.filter(([processId]) => !expired.includes(processId)).map(([, stored]) => stored.snapshot);
+};
@@ -0,0 +1,143 @@
+import { hostname } from 'os';
+import { Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { Job, Worker } from 'bullmq';
+import { publishWorkerSnapshot, removeWorkerSnapshot } from './store';
+import { logger } from '../logging/logger';
+
+const PUBLISH_INTERVAL_MS = parseInt(process.env.METRICS_PUBLISH_INTERVAL_MS || '10000');
+const PROCESS_ID = `${hostname()}:${process.pid}`;
+
+const DURATION_BUCKETS = [0.1, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120, 300];
+const WAIT_BUCKETS = [0.1, 1, 5, 15, 30, 60, 300, 900, 1800, 3600];
+
+export const workerRegistry = new Registry();
+
+const jobsCompleted = new Counter({
+  name: 'bullmq_jobs_completed_total',
+  help: 'Jobs completed successfully',
+  labelNames: ['queue', 'worker'],
+  registers: [workerRegistry],
+});
+
+const jobsFailed = new Counter({
+  name: 'bullmq_jobs_failed_total',
+  help: 'Jobs that failed for good (retries exhausted or unrecoverable)',
+  labelNames: ['queue', 'worker'],
+  registers: [workerRegistry],
+});
+
+const jobsRetried = new Counter({
+  name: 'bullmq_jobs_retried_total',
+  help: 'Failed attempts that were scheduled for a retry',
+  labelNames: ['queue', 'worker'],
+  registers: [workerRegistry],
+});
+
+const jobsRateLimited = new Counter({
+  name: 'bullmq_jobs_rate_limited_total',
+  help: 'Jobs put back because the upstream signalled a rate limit',
+  labelNames: ['queue', 'worker'],
+  registers: [workerRegistry],
+});
+
+const processingDuration = new Histogram({
+  name: 'bullmq_job_processing_duration_seconds',
+  help: 'Time from processedOn to finishedOn',
+  labelNames: ['queue', 'worker', 'outcome'],
+  buckets: DURATION_BUCKETS,
+  registers: [workerRegistry],
+});
+
+const waitTime = new Histogram({
+  name: 'bullmq_job_wait_seconds',
+  help: 'Time a job spent waiting before a worker picked it up (excluding any delay)',
+  labelNames: ['queue', 'worker'],
+  buckets: WAIT_BUCKETS,
+  registers: [workerRegistry],
+});
+
+const activeJobs = new Gauge({
+  name: 'bullmq_worker_active_jobs',
+  help: 'Jobs currently being processed by a worker process',
+  labelNames: ['queue', 'worker'],
+  registers: [workerRegistry],
+});
+
+const workerConcurrency = new Gauge({
+  name: 'bullmq_worker_concurrency',
+  help: 'Configured concurrency of a worker process',
+  labelNames: ['queue', 'worker'],
+  registers: [workerRegistry],
+});
+
+// Every series carries the process it came from. The server only sums snapshots
+// of live processes, so a restarted worker starts new series at zero (a reset
+// Prometheus expects) instead of pulling a summed counter down.
+const worker = PROCESS_ID;
+const seconds = (ms: number) => Math.max(ms, 0) / 1000;
+
+export const recordConcurrency = (queue: string, concurrency: number) => {
+  workerConcurrency.set({ queue, worker }, concurrency);
+};
+
+export const recordActive = (queue: string, job: Job) => {
+  if (job.processedOn) {
+    waitTime.observe({ queue, worker }, seconds(job.processedOn - job.timestamp - (job.delay ?? 0)));
+  }
+};
+
+const recordFinished = (queue: string, job: Job, outcome: 'completed' | 'failed') => {
+  if (job.processedOn) {
+    processingDuration.observe({ queue, worker, outcome }, seconds((job.finishedOn ?? Date.now()) - job.processedOn));
+  }
+};
+
+export const recordCompleted = (queue: string, job: Job) => {
+  recordFinished(queue, job, 'completed');
+  jobsCompleted.inc({ queue, worker });
+};
+
+export const recordFailed = (queue: string, job: Job, final: boolean) => {
+  recordFinished(queue, job, 'failed');
+  (final ? jobsFailed : jobsRetried).inc({ queue, worker });
+};
+
+export const recordRateLimited = (queue: string) => {
+  jobsRateLimited.inc({ queue, worker });
+};
+
+// A job counts as active for as long as the worker holds it, whichever way it
+// leaves: completed, failed, or put back by a rate limit (which emits no event,
+// and which a sandboxed processor hits out of this process's sight)
+export const trackActiveJobs = (queue: string, target: Worker) => {
+  activeJobs.set({ queue, worker }, 0);
+  const processJob = target.processJob.bind(target);
+  target.processJob = async (...args) => {
+    activeJobs.inc({ queue, worker });
+    try {
+      return await processJob(...args);
+    } finally {
+      activeJobs.dec({ queue, worker });
+    }
+  };
+};
+
+// Periodically push this process's metrics to Redis; returns a stop function
+export const startMetricsPublisher = () => {
+  const publish = async () => {
+    try {
+      const snapshot = await workerRegistry.getMetricsAsJSON();
+      await publishWorkerSnapshot(PROCESS_ID, snapshot, Math.ceil((PUBLISH_INTERVAL_MS * 3) / 1000));
+    } catch (error) {
+      logger.error('Could not publish metrics', { component: 'worker', err: error });
+    }
+  };
+
+  publish();
+  const timer = setInterval(publish, PUBLISH_INTERVAL_MS);
+
+  return async () => {
+    clearInterval(timer);
+    await removeWorkerSnapshot(PROCESS_ID);
+  };
+};
@@ -0,0 +1,51 @@
+import { RequestHandler } from 'express';
+import { z } from 'zod';
+import { formatZodError } from '../queues/validation';
+import { WebhookRegistration } from '../webhooks/types';
+import { assertCallbackTarget, CallbackUrlError } from '../webhooks/targets';
+
+const callbackSchema = z.object({
+  callbackUrl: z.url({ protocol: /^https?$/ }).optional(),
+  callbackSecret: z.string().min(16).max(256).optional(),
+});
+
+// Pulls callbackUrl / callbackSecret out of the body before the payload schema
+// strips them, and keeps them in res.locals.callback. The URL must resolve to
+// public addresses only (see WEBHOOK_ALLOWED_HOSTS for exceptions).
+export const callbackParams: RequestHandler = async (req, res, next) => {
+  const result = callbackSchema.safeParse(req.body ?? {});
+
+  if (!result.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: formatZodError(result.error),
+    });
+  }
+
+  const { callbackUrl, callbackSecret } = result.data;
+  if (callbackSecret && !callbackUrl) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: [{ field: 'callbackSecret', message: 'callbackSecret requires callbackUrl' }],
+    });
+  }
+
+  if (callbackUrl) {
+    try {
+      await assertCallbackTarget(callbackUrl);
+    } catch (error) {
+      if (!(error instanceof CallbackUrlError)) {
+        return res.status(500).json({ success: false, error: String(error) });
+      }
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: [{ field: 'callbackUrl', message: error.message }],
+      });
+    }
+    res.locals.callback = { url: callbackUrl, secret: callbackSecret } satisfies WebhookRegistration;
+  }
+  next();
+};
@@ -0,0 +1,133 @@
+import { Request, RequestHandler, Response } from 'express';
+import { createHash, randomUUID } from 'crypto';
+import { z } from 'zod';
+import { getRedisClient } from '../config/redis';
+import { getQueue, getQueueDefinition } from '../queues';
+import { formatZodError } from '../queues/validation';
+import { clientId } from '../auth';
+import { respondWithJob } from './wait';
+
+const IDEMPOTENCY_TTL_SECONDS = parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || String(24 * 60 * 60));
+
+const keySchema = z.string().trim().min(1).max(255);
+
+interface IdempotencyRecord {
+  jobId: string;
+  fingerprint: string;
+  createdAt: string;
+}
+
+export interface IdempotencyOptions {
+  route: string;
+  queue: string | ((req: Request) => string); // Queue of the (root) job, when it depends on the body
+  batchSize?: (body: Record<string, unknown>) => number | undefined; // Jobs created by a batch submission, undefined if the body is invalid
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+// Handlers call this once Queue.add has succeeded. From then on the key stays
+// claimed even if the response is an error (e.g. a ?wait job that failed).
+export const markEnqueued = (res: Response) => {
+  res.locals.enqueued = true;
+};
+
+// Honours an Idempotency-Key header (or body.idempotencyKey). The first request
+// claims the key in Redis along with a fresh job ID; repeats within the TTL get
+// the original job back instead of enqueuing again. The ID belongs to the claim,
+// not the key, so a key reused after expiry never lands on a retained old job.
+export const idempotency = ({ route, queue, batchSize }: IdempotencyOptions): RequestHandler => async (req, res, next) => {
+  const raw = req.get('idempotency-key') ?? req.body?.idempotencyKey;
+  if (raw === undefined) {
+    return next();
+  }
+
+  const key = keySchema.safeParse(raw);
+  if (!key.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: formatZodError(key.error).map(detail => ({ ...detail, field: 'idempotencyKey' })),
+    });
+  }
+
+  try {
+    const { idempotencyKey, ...payload } = req.body ?? {};
+    const scope = sha256(`${clientId(req, res.locals.principal)}:${route}:${key.data}`);
+    const redisKey = `idempotency:${scope}`;
+    const record: IdempotencyRecord = {
+      jobId: `idem-${randomUUID()}`,
+      fingerprint: sha256(JSON.stringify(payload)),
+      createdAt: new Date().toISOString(),
+    };
+
+    const redis = getRedisClient();
+    const claimed = await redis.set(redisKey, JSON.stringify(record), 'EX', IDEMPOTENCY_TTL_SECONDS, 'NX');
+
+    if (claimed) {
+      res.locals.idempotentJobId = record.jobId;
+      res.set('Idempotency-Key', key.data);
+      // Release the key if this request doesn't end up enqueuing anything.
+      // 'finish' never fires when the client disconnects first, 'close' does.
+      let released = false;
+      const release = () => {
+        if (!released && !res.locals.enqueued) {
+          released = true;
+          redis.del(redisKey).catch(() => undefined);
+        }
+      };
+      res.on('finish', release);
+      res.on('close', release);
+      return next();
+    }
+
+    const original: IdempotencyRecord = JSON.parse((await redis.get(redisKey)) ?? JSON.stringify(record));
+    if (original.fingerprint !== record.fingerprint) {
+      return res.status(422).json({
+        success: false,
+        error: 'Idempotency-Key was already used with a different request body',
+      });
+    }
+
+    // Same fingerprint, so the body is the one that was accepted the first time.
+    // An invalid one never enqueued anything: let validation reject it.
+    const queueKey = typeof queue === 'string' ? queue : queue(req);
+    const definition = getQueueDefinition(queueKey);
+    const count = batchSize?.(payload);
+    if (!definition || (batchSize && count === undefined)) {
+      return next();
+    }
+
+    res.set('Idempotency-Key', key.data);
+    res.set('Idempotent-Replayed', 'true');
+    const queueName = definition.name;
+
+    if (count !== undefined) {
+      const jobIds = Array.from({ length: count }, (_, index) => `${original.jobId}-${index}`);
+      return res.json({
+        success: true,
+        deduplicated: true,
+        jobsAdded: 0,
+        jobIds,
+        queue: queueName,
+        originalRequestAt: original.createdAt,
+      });
+    }
+
+    const job = await getQueue(queueKey)!.getJob(original.jobId);
+    const body = {
+      success: true,
+      deduplicated: true,
+      jobId: original.jobId,
+      queue: queueName,
+      originalRequestAt: original.createdAt,
+    };
+
+    if (!job) {
+      // Still being enqueued by the first request, or already removed
+      return res.json({ ...body, state: 'unknown' });
+    }
+    await respondWithJob(res, job, queueKey, { ...body, state: await job.getState() });
+  } catch (error) {
+    res.status(500).json({ success: false, error: String(error) });
+  }
+};
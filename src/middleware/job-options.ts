@@ -0,0 +1,34 @@
+import { Response } from 'express';
+import { randomUUID } from 'crypto';
+import { getQueueDefinition } from '../queues';
+import { saveWebhookRegistration, WebhookRegistration } from '../webhooks';
+import { CorrelationOptions } from '../logging/correlation';
+import { TraceContextOptions, injectTraceContext } from '../tracing/jobs';
+
+// Picks the job ID for a submission: derived from the Idempotency-Key when one
+// was claimed, random when a callback needs registering, otherwise BullMQ's own.
+// Callbacks are registered before Queue.add so no worker can finish the job first.
+// `index` distinguishes the jobs of a batch. Every job carries the request ID
+// and the trace context of the request.
+export const prepareJobOptions = async (
+  res: Response,
+  queueKey: string,
+  index?: number,
+): Promise<{ jobId?: string } & CorrelationOptions & TraceContextOptions> => {
+  const correlation = { requestId: res.locals.requestId as string | undefined, ...injectTraceContext() };
+  const callback: WebhookRegistration | undefined = res.locals.callback;
+  const idempotentId: string | undefined = res.locals.idempotentJobId;
+
+  const jobId = idempotentId
+    ? index === undefined ? idempotentId : `${idempotentId}-${index}`
+    : callback ? randomUUID() : undefined;
+
+  if (!jobId) {
+    return correlation;
+  }
+
+  if (callback) {
+    await saveWebhookRegistration(getQueueDefinition(queueKey)!.name, jobId, callback);
+  }
+  return { jobId, ...correlation };
+};
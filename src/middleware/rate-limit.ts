@@ -0,0 +1,88 @@
+import { Request, RequestHandler, Response } from 'express';
+import { rateLimitConfig } from '../config/rate-limits';
+import { consume, LimitCheck, LimitState } from '../rate-limit/limiter';
+import { Principal, clientId } from '../auth';
+
+export interface RateLimitOptions {
+  route: string;
+  queue: string | ((req: Request) => Record<string, number>); // Or jobs per queue, for requests spanning queues
+  jobs?: (req: Request) => number; // Jobs this request will enqueue (default 1)
+}
+
+const msUntilUtcMidnight = (now: Date) =>
+  Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) - now.getTime();
+
+const setHeaders = (res: Response, state: LimitState) => {
+  res.set('X-RateLimit-Limit', String(state.limit));
+  res.set('X-RateLimit-Remaining', String(state.remaining));
+  res.set('X-RateLimit-Reset', String(Math.ceil(state.resetMs / 1000)));
+};
+
+export const rateLimit = ({ route, queue, jobs }: RateLimitOptions): RequestHandler => async (req, res, next) => {
+  if (!rateLimitConfig.enabled) {
+    return next();
+  }
+
+  try {
+    const principal: Principal | undefined = res.locals.principal;
+    const client = clientId(req, principal);
+    const costs = typeof queue === 'string' ? { [queue]: jobs ? jobs(req) : 1 } : queue(req);
+    const cost = Object.values(costs).reduce((sum, jobCount) => sum + jobCount, 0);
+    const routeLimit = rateLimitConfig.routes[route] ?? rateLimitConfig.routes.default;
+    const now = new Date();
+    const day = now.toISOString().slice(0, 10);
+
+    // {client} hash tag keeps all of a client's counters in one cluster slot
+    const checks: LimitCheck[] = [
+      {
+        name: 'route',
+        key: `ratelimit:{${client}}:route:${route}:${Math.floor(now.getTime() / routeLimit.durationMs)}`,
+        limit: routeLimit.points,
+        windowMs: routeLimit.durationMs,
+        cost: 1,
+      },
+      ...Object.entries(costs).map(([key, jobCount]): LimitCheck => {
+        const queueLimit = rateLimitConfig.queues[key] ?? rateLimitConfig.queues.default;
+        return {
+          name: 'queue',
+          key: `ratelimit:{${client}}:queue:${key}:${Math.floor(now.getTime() / queueLimit.durationMs)}`,
+          limit: queueLimit.points,
+          windowMs: queueLimit.durationMs,
+          cost: jobCount,
+        };
+      }),
+      {
+        name: 'daily-quota',
+        key: `ratelimit:{${client}}:quota:${day}`,
+        limit: principal?.dailyQuota ?? rateLimitConfig.dailyQuota,
+        windowMs: msUntilUtcMidnight(now),
+        cost,
+      },
+    ];
+
+    const result = await consume(checks);
+
+    if (!result.allowed) {
+      setHeaders(res, result.rejectedBy);
+      res.set('Retry-After', String(Math.ceil(result.rejectedBy.resetMs / 1000)));
+      return res.status(429).json({
+        success: false,
+        error: result.rejectedBy.name === 'daily-quota' ? 'Daily job quota exceeded' : 'Rate limit exceeded',
+        limit: result.rejectedBy.name,
+        retryAfterSeconds: Math.ceil(result.rejectedBy.resetMs / 1000),
+      });
+    }
+
+    // Report the tightest short-term window, plus the daily quota separately
+    const quotaState = result.states[result.states.length - 1];
+    const tightest = result.states
+      .slice(0, -1)
+      .reduce((min, state) => (state.remaining / state.limit < min.remaining / min.limit ? state : min));
+    setHeaders(res, tightest);
+    res.set('X-Quota-Limit', String(quotaState.limit));
+    res.set('X-Quota-Remaining', String(quotaState.remaining));
+    next();
+  } catch (error) {
+    res.status(500).json({ success: false, error: String(error) });
+  }
+};
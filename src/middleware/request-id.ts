@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import { logger } from '../logging/logger';
+import { REQUEST_ID_HEADER } from '../logging/correlation';
+
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+const QUIET_PATHS = ['/health', '/health/live', '/health/ready', '/metrics'];
+
+// Reuses the caller's X-Request-Id (e.g. from a load balancer) or generates one,
+// echoes it back and logs the request once the response is sent
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const id = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  const startedAt = process.hrtime.bigint();
+
+  res.locals.requestId = id;
+  res.locals.log = logger.child({ component: 'http', requestId: id });
+  res.setHeader(REQUEST_ID_HEADER, id);
+
+  res.on('finish', () => {
+    const fields = {
+      method: req.method,
+      path: req.originalUrl,
+      status: res.statusCode,
+      durationMs: Math.round(Number(process.hrtime.bigint() - startedAt) / 1e4) / 100,
+      principal: res.locals.principal?.id,
+    };
+    if (QUIET_PATHS.includes(req.path)) {
+      res.locals.log.debug('Request completed', fields);
+    } else {
+      res.locals.log.info('Request completed', fields);
+    }
+  });
+
+  next();
+};
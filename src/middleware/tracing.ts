@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import { SpanKind, SpanStatusCode, context, propagation, trace } from '@opentelemetry/api';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_URL_PATH,
+} from '@opentelemetry/semantic-conventions';
+import { tracer } from '../tracing/provider';
+
+// Server span per request, continuing the caller's trace when it sent a
+// traceparent header. Everything downstream (including Queue.add) runs inside it.
+export const traceRequests = (req: Request, res: Response, next: NextFunction) => {
+  const parent = propagation.extract(context.active(), req.headers);
+  const span = tracer.startSpan(
+    `${req.method}`,
+    {
+      kind: SpanKind.SERVER,
+      attributes: {
+        [ATTR_HTTP_REQUEST_METHOD]: req.method,
+        [ATTR_URL_PATH]: req.path,
+        'http.request_id': res.locals.requestId,
+      },
+    },
+    parent,
+  );
+
+  res.on('finish', () => {
+    // The matched route is only known once a handler has run
+    const route = req.route?.path ? `${req.baseUrl}${req.route.path}` : undefined;
+    if (route) {
+      span.updateName(`${req.method} ${route}`);
+      span.setAttribute(ATTR_HTTP_ROUTE, route);
+    }
+    span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  });
+
+  context.with(trace.setSpan(parent, span), next);
+};
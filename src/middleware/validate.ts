@@ -0,0 +1,19 @@
+import { RequestHandler } from 'express';
+import { ZodType } from 'zod';
+import { formatZodError } from '../queues/validation';
+
+// Replaces req.body with the parsed (defaulted) payload, or answers 400
+export const validateBody = (schema: ZodType): RequestHandler => (req, res, next) => {
+  const result = schema.safeParse(req.body ?? {});
+
+  if (!result.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: formatZodError(result.error),
+    });
+  }
+
+  req.body = result.data;
+  next();
+};
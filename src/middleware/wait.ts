@@ -0,0 +1,56 @@
+import { RequestHandler, Response } from 'express';
+import { Job } from 'bullmq';
+import { z } from 'zod';
+import { waitForJob } from '../queues/wait';
+import { formatZodError } from '../queues/validation';
+
+export const MAX_WAIT_MS = parseInt(process.env.MAX_WAIT_MS || '60000');
+
+const waitQuerySchema = z.object({
+  wait: z.coerce.number().int().min(0).max(MAX_WAIT_MS).optional(),
+});
+
+// Parses the opt-in ?wait=<ms> query parameter into res.locals.waitMs
+export const waitParam: RequestHandler = (req, res, next) => {
+  const result = waitQuerySchema.safeParse(req.query);
+
+  if (!result.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: formatZodError(result.error),
+    });
+  }
+
+  res.locals.waitMs = result.data.wait;
+  next();
+};
+
+// Sends the usual enqueue response, or the job's outcome when ?wait was given:
+// 200 with the result, 500 with the failure reason, or 202 if still running.
+export const respondWithJob = async (
+  res: Response,
+  job: Job,
+  queueKey: string,
+  body: Record<string, unknown>
+) => {
+  if (res.locals.idempotentJobId && body.deduplicated === undefined) {
+    body = { ...body, deduplicated: false };
+  }
+
+  const waitMs: number | undefined = res.locals.waitMs;
+  if (!waitMs) {
+    return res.json(body);
+  }
+
+  const outcome = await waitForJob(job, queueKey, waitMs);
+
+  switch (outcome.state) {
+    case 'completed':
+      return res.json({ ...body, state: 'completed', result: outcome.result });
+    case 'failed':
+      return res.status(500).json({ ...body, success: false, state: 'failed', error: outcome.failedReason });
+    case 'timeout':
+      return res.status(202).json({ ...body, state: await job.getState(), timedOut: true, waitedMs: waitMs });
+  }
+};
@@ -0,0 +1,4 @@
+export * from './refs';
+export { offloadPayload, rehydratePayload } from './offload';
+export { trackPayloadOwner, collectPayloads, startPayloadCollector } from './owners';
+export { PayloadQueue } from './queue';
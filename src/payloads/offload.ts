@@ -0,0 +1,66 @@
+import { randomUUID } from 'crypto';
+import { payloadConfig } from '../config/payloads';
+import { getStorage } from '../storage';
+import { PayloadRef, collectPayloadRefs, isPayloadRef } from './refs';
+import { indexPayload } from './owners';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const byteSize = (value: unknown) => Buffer.byteLength(JSON.stringify(value) ?? '');
+
+const store = async (value: unknown, queueName: string): Promise<PayloadRef> => {
+  const key = `payloads/${queueName}/${randomUUID()}.json`;
+  const body = Buffer.from(JSON.stringify(value));
+  // Indexed first, so a blob is never stored without the collector knowing about it
+  await indexPayload(key);
+  await getStorage().put(key, body, 'application/json');
+  return { $offloaded: key, bytes: body.length };
+};
+
+// Moves the largest top-level fields to storage until what's left fits under
+// the threshold, so small fields (names, addresses, IDs) stay readable in
+// Bull Board. Anything other than an object is offloaded whole.
+export const offloadPayload = async <T>(value: T, queueName: string): Promise<T> => {
+  let remaining = byteSize(value);
+  if (remaining <= payloadConfig.offloadThresholdBytes) {
+    return value;
+  }
+  if (!isPlainObject(value)) {
+    return (await store(value, queueName)) as T;
+  }
+
+  const result: Record<string, unknown> = { ...value };
+  const fields = Object.entries(value)
+    .filter(([, field]) => !isPayloadRef(field))
+    .map(([name, field]) => ({ name, field, bytes: byteSize(field) }))
+    .sort((a, b) => b.bytes - a.bytes);
+
+  for (const { name, field, bytes } of fields) {
+    if (remaining <= payloadConfig.offloadThresholdBytes) {
+      break;
+    }
+    const ref = await store(field, queueName);
+    result[name] = ref;
+    remaining -= bytes - byteSize(ref);
+  }
+  return result as T;
+};
+
+// Swaps every reference for the stored value. Throws StorageObjectNotFoundError
+// when a blob is gone.
+export const rehydratePayload = async <T>(value: T): Promise<T> => {
+  if (isPayloadRef(value)) {
+    return JSON.parse((await getStorage().get(value.$offloaded)).toString());
+  }
+  if (!value || typeof value !== 'object' || !collectPayloadRefs(value).length) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return (await Promise.all(value.map(rehydratePayload))) as T;
+  }
+  const entries = await Promise.all(
+    Object.entries(value).map(async ([name, field]) => [name, await rehydratePayload(field)])
+  );
+  return Object.fromEntries(entries);
+};
@@ -0,0 +1,98 @@
+import { Job } from 'bullmq';
+import { getBullmqConnection, getRedisClient, redisConfig } from '../config/redis';
+import { payloadConfig } from '../config/payloads';
+import { getStorage } from '../storage';
+import { logger } from '../logging/logger';
+import { collectPayloadRefs } from './refs';
+
+const log = logger.child({ component: 'payload-gc' });
+
+// Every stored blob is indexed by creation time, with the set of jobs
+// ("<queue name>:<job id>") that reference it. A blob lives as long as one of
+// them does: DLQ entries, replays and webhook deliveries share their source
+// job's blobs rather than copying them.
+const INDEX_KEY = 'payloads:index';
+const ownersKey = (key: string) => `payloads:owners:${key}`;
+
+const BATCH_SIZE = 200;
+
+export const indexPayload = async (key: string) => {
+  await getRedisClient().zadd(INDEX_KEY, Date.now(), key);
+};
+
+// Called once the job exists, for its data or its return value
+export const trackPayloadOwner = async (job: Job, value: unknown = job.data) => {
+  const refs = collectPayloadRefs(value);
+  if (!refs.length || !job.id) {
+    return;
+  }
+  const redis = getRedisClient();
+  await Promise.all(refs.map(key => redis.sadd(ownersKey(key), `${job.queueName}:${job.id}`)));
+};
+
+// Queue names can't contain ":", job IDs can
+const jobExists = async (owner: string) => {
+  const separator = owner.indexOf(':');
+  const jobKey = `${redisConfig.prefix}:${owner.slice(0, separator)}:${owner.slice(separator + 1)}`;
+  return (await getBullmqConnection().exists(jobKey)) === 1;
+};
+
+// Deletes blobs whose jobs are all gone: completed and failed jobs trimmed by
+// removeOnComplete / removeOnFail, removed, cleaned or purged from a DLQ.
+// Blobs within the grace period are skipped, since their job may not be added yet.
+export const collectPayloads = async () => {
+  const redis = getRedisClient();
+  const storage = getStorage();
+  const cutoff = Date.now() - payloadConfig.gcGraceMs;
+  let offset = 0;
+  let deleted = 0;
+
+  for (;;) {
+    const keys = await redis.zrangebyscore(INDEX_KEY, 0, cutoff, 'LIMIT', offset, BATCH_SIZE);
+
+    for (const key of keys) {
+      const owners = await redis.smembers(ownersKey(key));
+      const gone = [];
+      for (const owner of owners) {
+        if (!(await jobExists(owner))) {
+          gone.push(owner);
+        }
+      }
+
+      if (gone.length) {
+        await redis.srem(ownersKey(key), ...gone);
+      }
+      // Re-read rather than trust `owners`: a DLQ move or replay may have just added one
+      if (await redis.scard(ownersKey(key))) {
+        offset++;
+        continue;
+      }
+
+      await storage.delete(key);
+      await redis.del(ownersKey(key));
+      await redis.zrem(INDEX_KEY, key);
+      deleted++;
+    }
+
+    if (keys.length < BATCH_SIZE) {
+      return deleted;
+    }
+  }
+};
+
+// Runs until the returned stop function is called
+export const startPayloadCollector = () => {
+  const run = async () => {
+    try {
+      const deleted = await collectPayloads();
+      if (deleted) {
+        log.info('Deleted unreferenced payloads', { deleted });
+      }
+    } catch (err) {
+      log.error('Payload collection failed', { err });
+    }
+  };
+
+  const timer = setInterval(run, payloadConfig.gcIntervalMs);
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,30 @@
+import { BulkJobOptions, Job, JobsOptions, Queue } from 'bullmq';
+import { offloadPayload } from './offload';
+import { trackPayloadOwner } from './owners';
+
+// A Queue that offloads large job data before it reaches Redis and records
+// the new job as an owner of every referenced blob. Every queue that
+// producers add to is one of these.
+export class PayloadQueue<DataType = any, ResultType = any, NameType extends string = string> extends Queue<
+  DataType,
+  ResultType,
+  NameType,
+  DataType,
+  ResultType,
+  NameType
+> {
+  override async add(name: NameType, data: DataType, opts?: JobsOptions): Promise<Job<DataType, ResultType, NameType>> {
+    const job = await super.add(name, await offloadPayload(data, this.name), opts);
+    await trackPayloadOwner(job);
+    return job;
+  }
+
+  override async addBulk(
+    jobs: { name: NameType; data: DataType; opts?: BulkJobOptions }[]
+  ): Promise<Job<DataType, ResultType, NameType>[]> {
+    const offloaded = await Promise.all(jobs.map(async job => ({ ...job, data: await offloadPayload(job.data, this.name) })));
+    const added = await super.addBulk(offloaded);
+    await Promise.all(added.map(job => trackPayloadOwner(job)));
+    return added;
+  }
+}
@@ -0,0 +1,20 @@
+// Stands in for an offloaded value inside job data or a return value
+export interface PayloadRef {
+  $offloaded: string;   // Storage key
+  bytes: number;
+}
+
+export const isPayloadRef = (value: unknown): value is PayloadRef =>
+  !!value && typeof value === 'object' && typeof (value as PayloadRef).$offloaded === 'string';
+
+// Every reference anywhere in the value: DLQ entries and webhook payloads
+// carry other jobs' data and results, references included
+export const collectPayloadRefs = (value: unknown): string[] => {
+  if (isPayloadRef(value)) {
+    return [value.$offloaded];
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(collectPayloadRefs);
+  }
+  return [];
+};
@@ -0,0 +1,23 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MinimalJob } from 'bullmq';
+import { backoffStrategy, RETRY_AFTER_BACKOFF } from './backoff';
+import { RetryAfterError } from './errors';
+
+const job = { opts: { backoff: { type: RETRY_AFTER_BACKOFF, delay: 5000 } } } as unknown as MinimalJob;
+
+describe('backoffStrategy', () => {
+  it('waits as long as a RetryAfterError asks', () => {
+    assert.equal(backoffStrategy(3, RETRY_AFTER_BACKOFF, new RetryAfterError(30_000), job), 30_000);
+  });
+
+  it('backs off exponentially from the job delay otherwise', () => {
+    assert.equal(backoffStrategy(1, RETRY_AFTER_BACKOFF, new Error('503'), job), 5000);
+    assert.equal(backoffStrategy(3, RETRY_AFTER_BACKOFF, new Error('503'), job), 20_000);
+  });
+
+  it('keeps the name and delay of an error relayed from a sandbox', () => {
+    const relayed = Object.assign(new Error('429'), { name: 'RetryAfterError', retryAfterMs: 1000 });
+    assert.equal(backoffStrategy(1, RETRY_AFTER_BACKOFF, relayed, job), 1000);
+  });
+});
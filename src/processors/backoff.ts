@@ -0,0 +1,19 @@
+import { BackoffStrategy } from 'bullmq';
+import { isRetryAfter } from './errors';
+
+// Backoff type for queues whose processors may throw RetryAfterError, e.g.
+// backoff: { type: RETRY_AFTER_BACKOFF, delay: 5000 }. The retry waits as long
+// as the error asks; any other failure backs off exponentially from `delay`.
+export const RETRY_AFTER_BACKOFF = 'retry-after';
+
+export const backoffStrategy: BackoffStrategy = (attemptsMade, type, err, job) => {
+  if (type !== RETRY_AFTER_BACKOFF) {
+    throw new Error(`Unknown backoff strategy ${type}`);
+  }
+  if (isRetryAfter(err)) {
+    return err.retryAfterMs;
+  }
+  const backoff = job?.opts.backoff;
+  const delay = typeof backoff === 'object' ? backoff.delay ?? 0 : backoff ?? 0;
+  return Math.round(Math.pow(2, attemptsMade - 1) * delay);
+};
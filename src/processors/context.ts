@@ -0,0 +1,56 @@
+import { Job } from 'bullmq';
+import { appChannel, getRedisClient } from '../config/redis';
+import { JOB_LOG_CHANNEL, JobLogEntry, JobLogLevel, JobLogMessage } from '../queues/job-logs';
+import { jobLogger, requestIdOf } from '../logging/correlation';
+
+export interface JobProgress {
+  percent: number;
+  stage?: string;
+  [detail: string]: unknown;
+}
+
+export interface JobContext {
+  progress(percent: number, details?: Omit<JobProgress, 'percent'>): Promise<void>;
+  debug(message: string, fields?: Record<string, unknown>): Promise<void>;
+  info(message: string, fields?: Record<string, unknown>): Promise<void>;
+  warn(message: string, fields?: Record<string, unknown>): Promise<void>;
+  error(message: string, fields?: Record<string, unknown>): Promise<void>;
+}
+
+// Per-job progress and log lines, stored on the job itself and published for the
+// event stream; the process log gets the same line with the job's correlation fields
+export const createJobContext = (job: Job): JobContext => {
+  const processLog = jobLogger(job);
+
+  const log = async (level: JobLogLevel, message: string, fields?: Record<string, unknown>) => {
+    const entry: JobLogEntry = { timestamp: new Date().toISOString(), level, message, ...(fields && { fields }) };
+    processLog[level](message, fields);
+
+    const published: JobLogMessage = {
+      queueName: job.queueName,
+      jobId: job.id!,
+      attempt: job.attemptsMade + 1,
+      requestId: requestIdOf(job),
+      entry,
+    };
+
+    // A lost log line must never fail the job
+    try {
+      await job.log(JSON.stringify(entry));
+      await getRedisClient().publish(appChannel(JOB_LOG_CHANNEL), JSON.stringify(published));
+    } catch (err) {
+      processLog.error('Could not write job log', { err });
+    }
+  };
+
+  return {
+    progress: async (percent, details) => {
+      const clamped = Math.min(100, Math.max(0, Math.round(percent)));
+      await job.updateProgress(details ? { percent: clamped, ...details } : clamped);
+    },
+    debug: (message, fields) => log('debug', message, fields),
+    info: (message, fields) => log('info', message, fields),
+    warn: (message, fields) => log('warn', message, fields),
+    error: (message, fields) => log('error', message, fields),
+  };
+};
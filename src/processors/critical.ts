@@ -0,0 +1,25 @@
+import { Job } from 'bullmq';
+import { createJobContext } from './context';
+
+// 4. Critical Worker - With retries
+export const criticalProcessor = async (job: Job) => {
+  const ctx = createJobContext(job);
+  await ctx.info(`Attempt ${job.attemptsMade + 1} for task ${job.data.task}`);
+
+  await new Promise(resolve => setTimeout(resolve, 10000));
+
+  // Fail on first 2 attempts, succeed on 3rd
+  if (job.attemptsMade < 2) {
+    await ctx.warn('Temporary failure, will retry', { attempt: job.attemptsMade + 1 });
+    throw new Error(`Temporary failure (attempt ${job.attemptsMade + 1})`);
+  }
+
+  await ctx.progress(100);
+
+  return {
+    task: job.data.task,
+    completedAfterAttempts: job.attemptsMade + 1,
+    processedAt: new Date().toISOString(),
+    processedBy: process.pid
+  };
+};
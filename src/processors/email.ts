@@ -0,0 +1,58 @@
+import { Job, UnrecoverableError } from 'bullmq';
+import { createJobContext } from './context';
+import { emailConfig } from '../config/email';
+import { EmailJobData } from '../queues/schemas';
+import { classifyEmailError, getEmailTransport, renderEmail, resolveAttachments, sendEmail, throttleDelayMs } from '../email';
+import { rehydratePayload } from '../payloads';
+import { UpstreamRateLimitError } from './errors';
+
+// 2. Email Worker - Templated delivery through the configured transport
+export const emailProcessor = async (job: Job<EmailJobData>) => {
+  const { to, type, subject, priority, variables = {}, attachments = [] } = job.data;
+  const ctx = createJobContext(job);
+  await ctx.info(`Sending ${type} email to ${to}`, { priority, transport: getEmailTransport().name });
+
+  // As the parent of a flow, the email gets its children's results (e.g. processed images)
+  const childResults = await rehydratePayload(Object.values(await job.getChildrenValues()));
+
+  try {
+    const content = renderEmail(type, to, variables, subject);
+    const files = await resolveAttachments(attachments);
+    await ctx.progress(30, { stage: 'sending' });
+
+    const delivery = await sendEmail({ from: emailConfig.from, to, ...content, attachments: files });
+    await ctx.progress(100, { stage: 'sent' });
+    await ctx.info('Email accepted', { messageId: delivery.messageId, response: delivery.response });
+
+    return {
+      sent: true,
+      to,
+      subject: content.subject,
+      messageId: delivery.messageId,
+      transport: getEmailTransport().name,
+      accepted: delivery.accepted,
+      rejected: delivery.rejected,
+      attachments: files.map(file => file.filename),
+      childResults,
+      sentAt: new Date().toISOString(),
+      processedBy: process.pid
+    };
+  } catch (error) {
+    const failure = classifyEmailError(error);
+    const details = { code: failure.code, responseCode: failure.responseCode, reason: failure.message };
+
+    // A hard bounce or a broken message is not retried; timeouts and 4xx replies are
+    if (failure.permanent) {
+      await ctx.error('Permanent delivery failure', details);
+      throw new UnrecoverableError(failure.message);
+    }
+    // The server is throttling us: pause the queue instead of burning attempts
+    const retryAfterMs = throttleDelayMs(failure);
+    if (retryAfterMs !== undefined) {
+      await ctx.warn('SMTP server throttling', { ...details, retryAfterMs });
+      throw new UpstreamRateLimitError(retryAfterMs, failure.message);
+    }
+    await ctx.warn('Transient delivery failure', details);
+    throw failure;
+  }
+};
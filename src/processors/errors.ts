@@ -0,0 +1,30 @@
+// Thrown by a processor when an upstream service answers 429 / "slow down".
+// The worker pauses the whole queue for `retryAfterMs` and the job goes back
+// to waiting without using up an attempt.
+export class UpstreamRateLimitError extends Error {
+  constructor(readonly retryAfterMs: number, message = `Upstream rate limited, retry after ${retryAfterMs}ms`) {
+    super(message);
+    this.name = 'UpstreamRateLimitError';
+  }
+}
+
+// Also matches the plain Error a sandboxed processor's failure arrives as,
+// which keeps the name and retryAfterMs but not the class
+export const isUpstreamRateLimit = (error: unknown): error is UpstreamRateLimitError =>
+  error instanceof UpstreamRateLimitError ||
+  (error instanceof Error && error.name === 'UpstreamRateLimitError' && typeof (error as UpstreamRateLimitError).retryAfterMs === 'number');
+
+// Thrown by a processor when one job's upstream asked it to come back later
+// (e.g. a webhook receiver's 429 with Retry-After). Unlike an upstream rate
+// limit this is an ordinary failed attempt: only this job waits, for
+// `retryAfterMs` instead of its backoff delay, and it uses up an attempt.
+export class RetryAfterError extends Error {
+  constructor(readonly retryAfterMs: number, message = `Retry after ${retryAfterMs}ms`) {
+    super(message);
+    this.name = 'RetryAfterError';
+  }
+}
+
+export const isRetryAfter = (error: unknown): error is RetryAfterError =>
+  error instanceof RetryAfterError ||
+  (error instanceof Error && error.name === 'RetryAfterError' && typeof (error as RetryAfterError).retryAfterMs === 'number');
@@ -0,0 +1,21 @@
+import { Job } from 'bullmq';
+import { createJobContext } from './context';
+
+const STEPS = 5;
+
+// 1. Hello Worker - Simple success
+export const helloProcessor = async (job: Job) => {
+  const ctx = createJobContext(job);
+  await ctx.info('Processing job', { data: job.data });
+
+  for (let step = 1; step <= STEPS; step++) {
+    await new Promise(resolve => setTimeout(resolve, 10000 / STEPS));
+    await ctx.progress((step / STEPS) * 100);
+  }
+
+  return {
+    message: `Hello ${job.data.name}!`,
+    processedAt: new Date().toISOString(),
+    processedBy: process.pid
+  };
+};
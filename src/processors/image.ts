@@ -0,0 +1,86 @@
+import { Job, UnrecoverableError } from 'bullmq';
+import { posix } from 'path';
+import { createJobContext } from './context';
+import { imageConfig } from '../config/images';
+import { ImageJobData } from '../queues/schemas';
+import { getStorage, StorageObjectNotFoundError } from '../storage';
+import { CONTENT_TYPES, EXTENSIONS, InvalidImageError, probeImage, renderVariant } from '../images/pipeline';
+
+// 3. Image Worker - Resizes the original into every variant and format and stores the results
+export const imageProcessor = async (job: Job<ImageJobData>) => {
+  const { filename, data } = job.data;
+  const source = data ? undefined : job.data.source ?? `uploads/${filename}`;
+  const variants = imageConfig.variants.filter(variant => !job.data.variants || job.data.variants.includes(variant.name));
+  const formats = job.data.formats ?? imageConfig.formats;
+  const storage = getStorage();
+  const ctx = createJobContext(job);
+  await ctx.info(`Processing image ${filename}`, {
+    source: source ?? 'inline',
+    variants: variants.map(variant => variant.name),
+    formats,
+  });
+
+  await ctx.progress(0, { stage: 'downloading' });
+  let input: Buffer;
+  try {
+    input = source ? await storage.get(source) : Buffer.from(data!, 'base64');
+  } catch (error) {
+    if (error instanceof StorageObjectNotFoundError) {
+      await ctx.error('Source image not found', { source });
+      throw new UnrecoverableError(error.message);
+    }
+    throw error;   // Storage unavailable: retry
+  }
+
+  try {
+    const original = await probeImage(input);
+    await ctx.info('Image decoded', { ...original });
+
+    // Outputs are keyed by job id, so a retry overwrites rather than duplicates them
+    const stem = posix.parse(filename).name;
+    const outputs = [];
+    const total = variants.length * formats.length;
+
+    for (const variant of variants) {
+      for (const format of formats) {
+        await ctx.progress((outputs.length / total) * 100, { stage: 'resizing', variant: variant.name, format });
+        const rendered = await renderVariant(input, variant, format);
+        const stored = await storage.put(
+          `images/${job.id}/${stem}-${variant.name}.${EXTENSIONS[format]}`,
+          rendered.data,
+          CONTENT_TYPES[format]
+        );
+        outputs.push({
+          variant: variant.name,
+          format,
+          width: rendered.width,
+          height: rendered.height,
+          bytes: stored.bytes,
+          key: stored.key,
+          location: stored.location,
+          ...(stored.url && { url: stored.url }),
+        });
+      }
+    }
+
+    await ctx.progress(100, { stage: 'done' });
+    await ctx.info('Image processed', { outputs: outputs.length, bytes: outputs.reduce((sum, output) => sum + output.bytes, 0) });
+
+    return {
+      filename,
+      source: source ?? null,
+      original,
+      outputs,
+      storage: storage.name,
+      processedAt: new Date().toISOString(),
+      processedBy: process.pid
+    };
+  } catch (error) {
+    // Corrupt or unsupported input fails for good instead of using up retries
+    if (error instanceof InvalidImageError) {
+      await ctx.error('Invalid image', { reason: error.message });
+      throw new UnrecoverableError(error.message);
+    }
+    throw error;
+  }
+};
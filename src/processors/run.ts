@@ -0,0 +1,69 @@
+import { Job, RateLimitError, UnrecoverableError } from 'bullmq';
+import { QueueDefinition } from '../queues/types';
+import { assertValidJobData } from '../queues/validation';
+import { offloadPayload, rehydratePayload, trackPayloadOwner } from '../payloads';
+import { StorageObjectNotFoundError } from '../storage';
+import { traceJob } from '../tracing/jobs';
+import { jobLogger } from '../logging/correlation';
+import { isUpstreamRateLimit } from './errors';
+
+// Pauses a whole queue (across all worker processes) for `retryAfterMs`
+export type QueueLimiter = (retryAfterMs: number) => Promise<void>;
+
+// How many times one job may go back to waiting through an upstream rate limit
+// (which uses no attempt) before a further one counts as an ordinary failure
+const MAX_RATE_LIMITED_REQUEUES = 10;
+
+// The processor sees the full data; job.data goes back to the stored (offloaded)
+// form afterwards, so a DLQ entry or webhook copies references, not the payload
+const withPayloads = async (job: Job, run: () => Promise<unknown>) => {
+  const stored = job.data;
+  try {
+    job.data = await rehydratePayload(stored);
+  } catch (error) {
+    if (error instanceof StorageObjectNotFoundError) {
+      throw new UnrecoverableError(`Offloaded job data is missing: ${error.key}`);
+    }
+    throw error;
+  }
+
+  try {
+    const result = await offloadPayload(await run(), job.queueName);
+    await trackPayloadOwner(job, result);
+    return result;
+  } finally {
+    job.data = stored;
+  }
+};
+
+// Runs a queue's processor wherever it lives: in the worker process or in a
+// sandbox (src/sandbox/processor.ts)
+export const runProcessor = (definition: QueueDefinition, job: Job, token?: string, signal?: AbortSignal) =>
+  withPayloads(job, async () => {
+    assertValidJobData(definition, job.name, job.data);
+    return definition.processor(job, token, signal);
+  });
+
+// One attempt as seen from the worker: a consumer span continuing the producer's
+// trace, with an upstream rate limit turned into a queue-wide back-off that puts
+// the job back without using up an attempt (up to MAX_RATE_LIMITED_REQUEUES times)
+export const runAttempt = <T>(definition: QueueDefinition, job: Job, limiter: QueueLimiter, run: () => Promise<T>) =>
+  traceJob(definition.key, job, async () => {
+    try {
+      return await run();
+    } catch (error) {
+      if (!isUpstreamRateLimit(error)) {
+        throw error;
+      }
+      // Every start that neither failed nor finished went back through here
+      // (or stalled), so this bounds how long one job can hold the queue up
+      const requeues = job.attemptsStarted - job.attemptsMade - 1;
+      if (requeues >= MAX_RATE_LIMITED_REQUEUES) {
+        jobLogger(job).warn('Upstream rate limited too often, failing the attempt', { requeues });
+        throw error;
+      }
+      jobLogger(job).warn('Upstream rate limited, pausing queue', { retryAfterMs: error.retryAfterMs });
+      await limiter(error.retryAfterMs);
+      throw new RateLimitError();
+    }
+  });
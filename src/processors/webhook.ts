@@ -0,0 +1,66 @@
+import { Job, UnrecoverableError } from 'bullmq';
+import { appendDeliveryLog, getWebhookRegistration } from '../webhooks/store';
+import { deliverWebhook, WebhookResponseError } from '../webhooks/deliver';
+import { CallbackUrlError } from '../webhooks/targets';
+import { WebhookJobData } from '../webhooks/types';
+import { RetryAfterError } from './errors';
+
+// Used when a 429 comes without a usable Retry-After; longer requests are capped
+const DEFAULT_RETRY_AFTER_MS = 60_000;
+const MAX_RETRY_AFTER_MS = 10 * 60_000;
+
+// 5. Webhook Worker - Delivers job outcomes to callback URLs
+export const webhookProcessor = async (job: Job<WebhookJobData>) => {
+  const { event, sourceQueue, sourceJobId, payload } = job.data;
+
+  const registration = await getWebhookRegistration(sourceQueue, sourceJobId);
+  if (!registration) {
+    throw new UnrecoverableError(`No callback registered for ${sourceQueue}:${sourceJobId}`);
+  }
+
+  const startedAt = Date.now();
+  const attempt = job.attemptsMade + 1;
+  let statusCode: number | undefined;
+
+  try {
+    statusCode = await deliverWebhook(registration, payload);
+  } catch (error) {
+    if (error instanceof WebhookResponseError) {
+      statusCode = error.statusCode;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    await appendDeliveryLog(sourceQueue, sourceJobId, {
+      attempt,
+      event,
+      url: registration.url,
+      ok: false,
+      statusCode,
+      error: message,
+      durationMs: Date.now() - startedAt,
+      attemptedAt: new Date(startedAt).toISOString(),
+    });
+
+    // The receiver asked us to slow down. Its URL comes from the producer, so
+    // only this job waits: a failed attempt retried after Retry-After
+    if (error instanceof WebhookResponseError && statusCode === 429) {
+      throw new RetryAfterError(Math.min(error.retryAfterMs ?? DEFAULT_RETRY_AFTER_MS, MAX_RETRY_AFTER_MS), message);
+    }
+    // Client errors won't fix themselves, nor will a callback aimed at a private address; 408 is worth retrying
+    if (error instanceof CallbackUrlError || statusCode && statusCode >= 400 && statusCode < 500 && statusCode !== 408) {
+      throw new UnrecoverableError(message);
+    }
+    throw error;
+  }
+
+  await appendDeliveryLog(sourceQueue, sourceJobId, {
+    attempt,
+    event,
+    url: registration.url,
+    ok: true,
+    statusCode,
+    durationMs: Date.now() - startedAt,
+    attemptedAt: new Date(startedAt).toISOString(),
+  });
+
+  return { delivered: true, url: registration.url, statusCode, attempt };
+};
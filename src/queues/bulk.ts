@@ -0,0 +1,101 @@
+import { Job, JobType, Queue } from 'bullmq';
+
+export type BulkAction = 'retry' | 'promote' | 'remove';
+
+export interface BulkFilter {
+  name?: string;
+  olderThanMs?: number;                       // Grace period: only jobs at least this old
+  data?: Record<string, string | number | boolean | null>; // Dot-paths into job.data
+  limit: number;
+}
+
+export interface BulkResult {
+  action: BulkAction;
+  state: JobType;
+  dryRun: boolean;
+  matched: number;
+  affected: number;
+  jobIds: string[];
+  errors: { jobId: string; error: string }[];
+}
+
+const PAGE_SIZE = 500;
+
+const getPath = (value: unknown, path: string) =>
+  path.split('.').reduce<unknown>(
+    (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+
+// Finished jobs are aged from when they finished, everything else from creation
+const jobAge = (job: Job, now: number) => now - (job.finishedOn ?? job.timestamp);
+
+const matches = (job: Job, filter: BulkFilter, now: number) =>
+  (!filter.name || job.name === filter.name) &&
+  (!filter.olderThanMs || jobAge(job, now) >= filter.olderThanMs) &&
+  Object.entries(filter.data ?? {}).every(([path, expected]) => getPath(job.data, path) === expected);
+
+// Walk the state's job list page by page until `limit` matches are found
+export const selectJobs = async (queue: Queue, state: JobType, filter: BulkFilter) => {
+  const now = Date.now();
+  const selected: Job[] = [];
+
+  for (let start = 0; selected.length < filter.limit; start += PAGE_SIZE) {
+    const page = await queue.getJobs(state, start, start + PAGE_SIZE - 1, true);
+    for (const job of page) {
+      if (job && matches(job, filter, now)) {
+        selected.push(job);
+        if (selected.length >= filter.limit) break;
+      }
+    }
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  return selected;
+};
+
+const apply = (action: BulkAction, job: Job) => {
+  switch (action) {
+    case 'retry':
+      return job.retry('failed');
+    case 'promote':
+      return job.promote();
+    case 'remove':
+      return job.remove();
+  }
+};
+
+export const runBulkAction = async (
+  queue: Queue,
+  action: BulkAction,
+  state: JobType,
+  filter: BulkFilter,
+  dryRun: boolean
+): Promise<BulkResult> => {
+  const jobs = await selectJobs(queue, state, filter);
+  const result: BulkResult = {
+    action,
+    state,
+    dryRun,
+    matched: jobs.length,
+    affected: 0,
+    jobIds: jobs.map(job => job.id!),
+    errors: [],
+  };
+
+  if (dryRun) {
+    return result;
+  }
+
+  for (const job of jobs) {
+    try {
+      await apply(action, job);
+      result.affected++;
+    } catch (error) {
+      // e.g. a job that became active (locked) between selection and removal
+      result.errors.push({ jobId: job.id!, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+};
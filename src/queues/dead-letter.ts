@@ -0,0 +1,134 @@
+import { Job, JobsOptions, Queue } from 'bullmq';
+import { randomUUID } from 'crypto';
+import { bullmqOptions } from '../config/redis';
+import { queueDefinitions, getQueueDefinition } from './registry';
+import { QueueDefinition } from './types';
+import { getQueue } from './index';
+import { CorrelationOptions, requestIdOf } from '../logging/correlation';
+import { PayloadQueue } from '../payloads';
+import { getWebhookRegistration, saveWebhookRegistration } from '../webhooks/store';
+
+export interface DeadLetterEntry {
+  originalJobId: string;
+  name: string;
+  data: unknown;
+  opts: Pick<JobsOptions, 'priority' | 'attempts' | 'backoff'> & CorrelationOptions;
+  failedReason: string;
+  stacktrace: string[];
+  attemptsMade: number;
+  createdAt: number;
+  failedAt: number;
+}
+
+export interface DeadLetterFilter {
+  name?: string;
+  reason?: string;
+  limit?: number;
+}
+
+// DLQs are plain BullMQ queues with no worker attached: entries just sit in
+// the waiting list until they are replayed or purged.
+const deadLetterQueues = new Map<string, Queue<DeadLetterEntry>>();
+
+export const deadLetterQueueName = (definition: QueueDefinition) => `${definition.name}-dlq`;
+
+// BullMQ rejects integer custom IDs, so entries never reuse an auto-assigned job ID as-is
+export const deadLetterEntryId = (definition: QueueDefinition, jobId: string) => `${definition.key}-${jobId}`;
+
+export const getDeadLetterQueue = (key: string): Queue<DeadLetterEntry> | undefined => {
+  const definition = getQueueDefinition(key);
+  if (!definition?.deadLetter) {
+    return undefined;
+  }
+
+  let queue = deadLetterQueues.get(key);
+  if (!queue) {
+    queue = new PayloadQueue<DeadLetterEntry>(deadLetterQueueName(definition), bullmqOptions());
+    deadLetterQueues.set(key, queue);
+  }
+  return queue;
+};
+
+export const getAllDeadLetterQueues = () =>
+  queueDefinitions
+    .filter(definition => definition.deadLetter)
+    .map(definition => getDeadLetterQueue(definition.key)!);
+
+export const closeDeadLetterQueues = async () => {
+  await Promise.all([...deadLetterQueues.values()].map(queue => queue.close()));
+  deadLetterQueues.clear();
+};
+
+// Copy a job whose retries are exhausted into its DLQ, then drop it from the failed set
+export const moveToDeadLetter = async (definition: QueueDefinition, job: Job): Promise<boolean> => {
+  const deadLetterQueue = getDeadLetterQueue(definition.key);
+  if (!deadLetterQueue || !job.id) {
+    return false;
+  }
+
+  // Flow jobs stay put: removing them would tear the flow tree apart
+  const dependencies = await job.getDependenciesCount();
+  if (job.parentKey || Object.values(dependencies).some(count => count > 0)) {
+    return false;
+  }
+
+  const entry: DeadLetterEntry = {
+    originalJobId: job.id,
+    name: job.name,
+    data: job.data,
+    opts: {
+      priority: job.opts.priority,
+      attempts: job.opts.attempts,
+      backoff: job.opts.backoff,
+      requestId: requestIdOf(job),
+    },
+    failedReason: job.failedReason,
+    stacktrace: job.stacktrace ?? [],
+    attemptsMade: job.attemptsMade,
+    createdAt: job.timestamp,
+    failedAt: job.finishedOn ?? Date.now(),
+  };
+
+  await deadLetterQueue.add('dead-letter', entry, { jobId: deadLetterEntryId(definition, job.id) });
+  await job.remove();
+  return true;
+};
+
+const matches = (entry: DeadLetterEntry, filter: DeadLetterFilter) =>
+  (!filter.name || entry.name === filter.name) &&
+  (!filter.reason || entry.failedReason?.toLowerCase().includes(filter.reason.toLowerCase()));
+
+export const findDeadLetters = async (key: string, filter: DeadLetterFilter = {}) => {
+  const deadLetterQueue = getDeadLetterQueue(key)!;
+  const jobs = await deadLetterQueue.getJobs('waiting', 0, -1, true);
+  const found = jobs.filter(job => job && matches(job.data, filter));
+  return filter.limit ? found.slice(0, filter.limit) : found;
+};
+
+// Send an entry back to its origin queue as a new job. A callback registered for
+// the original job is copied to a fresh ID before the add, like a new submission.
+export const replayDeadLetter = async (key: string, entryJob: Job<DeadLetterEntry>, data?: unknown) => {
+  const entry = entryJob.data;
+  const queueName = getQueueDefinition(key)!.name;
+  const registration = await getWebhookRegistration(queueName, entry.originalJobId);
+
+  const jobId = registration ? randomUUID() : undefined;
+  if (jobId) {
+    await saveWebhookRegistration(queueName, jobId, registration!);
+  }
+
+  const replayed = await getQueue(key)!.add(entry.name, data ?? entry.data, {
+    ...entry.opts,
+    ...(jobId && { jobId }),
+  });
+  await entryJob.remove();
+  return replayed;
+};
+
+export const serializeDeadLetter = (job: Job<DeadLetterEntry>) => ({
+  id: job.id,
+  ...job.data,
+  createdAt: new Date(job.data.createdAt).toISOString(),
+  failedAt: new Date(job.data.failedAt).toISOString(),
+  deadLetteredAt: new Date(job.timestamp).toISOString(),
+});
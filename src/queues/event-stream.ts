@@ -0,0 +1,95 @@
+import { EventEmitter } from 'events';
+import { QueueEventsListener } from 'bullmq';
+import { RedisClient, appChannel, getRedisClient } from '../config/redis';
+import { getQueueEvents } from './events';
+import { queueDefinitions } from './registry';
+import { JOB_LOG_CHANNEL, JobLogMessage } from './job-logs';
+import { logger } from '../logging/logger';
+
+const QUEUE_EVENTS = [
+  'waiting',
+  'active',
+  'progress',
+  'completed',
+  'failed',
+  'stalled',
+  'delayed',
+] as const;
+
+// 'log' comes from workers over pub/sub rather than from QueueEvents
+export const STREAMED_EVENTS = [...QUEUE_EVENTS, 'log'] as const;
+
+export type StreamedEvent = (typeof STREAMED_EVENTS)[number];
+
+export interface JobLifecycleEvent {
+  queue: string;
+  event: StreamedEvent;
+  jobId: string;
+  data: Record<string, unknown>;
+  timestamp: string;
+}
+
+// Fans QueueEvents out to any number of in-process subscribers (SSE clients)
+const hub = new EventEmitter();
+hub.setMaxListeners(0);
+
+let attached = false;
+let logSubscriber: RedisClient | undefined;
+
+const emit = (queue: string, event: StreamedEvent, jobId: string, data: Record<string, unknown>) => {
+  const payload: JobLifecycleEvent = {
+    queue,
+    event,
+    jobId,
+    data,
+    timestamp: new Date().toISOString(),
+  };
+  hub.emit('event', payload);
+};
+
+const attachQueueEvents = () => {
+  if (attached) {
+    return;
+  }
+  attached = true;
+
+  for (const definition of queueDefinitions) {
+    const events = getQueueEvents(definition.key)!;
+
+    for (const event of QUEUE_EVENTS) {
+      events.on(event as keyof QueueEventsListener, (({ jobId, ...data }: { jobId: string }) => {
+        emit(definition.key, event, jobId, data);
+      }) as QueueEventsListener[keyof QueueEventsListener]);
+    }
+  }
+
+  const subscriber = getRedisClient().duplicate();
+  logSubscriber = subscriber;
+  subscriber.subscribe(appChannel(JOB_LOG_CHANNEL)).catch(err => {
+    logger.error('Could not subscribe to job logs', { component: 'server', err });
+  });
+  subscriber.on('message', (channel, raw) => {
+    try {
+      const { queueName, jobId, attempt, requestId, entry }: JobLogMessage = JSON.parse(raw);
+      const definition = queueDefinitions.find(definition => definition.name === queueName);
+      if (definition) {
+        emit(definition.key, 'log', jobId, { attempt, requestId, ...entry });
+      }
+    } catch {
+      logger.error('Invalid job log message', { component: 'server', raw });
+    }
+  });
+};
+
+export const subscribeToJobEvents = (listener: (event: JobLifecycleEvent) => void) => {
+  attachQueueEvents();
+  hub.on('event', listener);
+  return () => {
+    hub.off('event', listener);
+  };
+};
+
+export const closeEventStream = async () => {
+  await logSubscriber?.quit();
+  logSubscriber = undefined;
+};
@@ -0,0 +1,27 @@
+import { QueueEvents } from 'bullmq';
+import { bullmqOptions } from '../config/redis';
+import { getQueueDefinition } from './registry';
+
+// QueueEvents instances are created on first use and shared per queue
+const queueEvents = new Map<string, QueueEvents>();
+
+export const getQueueEvents = (key: string): QueueEvents | undefined => {
+  const existing = queueEvents.get(key);
+  if (existing) {
+    return existing;
+  }
+
+  const definition = getQueueDefinition(key);
+  if (!definition) {
+    return undefined;
+  }
+
+  const events = new QueueEvents(definition.name, bullmqOptions());
+  queueEvents.set(key, events);
+  return events;
+};
+
+export const closeQueueEvents = async () => {
+  await Promise.all([...queueEvents.values()].map(events => events.close()));
+  queueEvents.clear();
+};
@@ -0,0 +1,213 @@
+import { FlowChildJob, FlowJob, FlowProducer, Job, JobNode, JobsOptions } from 'bullmq';
+import { z } from 'zod';
+import { bullmqOptions } from '../config/redis';
+import { getQueueDefinition, queueDefinitions } from './registry';
+import { serializeJob } from './jobs';
+import { FieldError, formatZodError, getJobSchema } from './validation';
+import { CorrelationOptions } from '../logging/correlation';
+import { TraceContextOptions } from '../tracing/jobs';
+import { offloadPayload, trackPayloadOwner } from '../payloads';
+
+export const MAX_FLOW_NODES = 50;
+export const MAX_FLOW_DEPTH = 5;
+const MAX_PRIORITY = 2 ** 21; // BullMQ rejects anything higher
+
+// What happens to the parent when this node fails for good
+export const FAILURE_POLICIES = ['fail-parent', 'ignore', 'continue', 'remove'] as const;
+export type FailurePolicy = (typeof FAILURE_POLICIES)[number];
+
+const FAILURE_OPTIONS: Record<FailurePolicy, Partial<JobsOptions>> = {
+  'fail-parent': { failParentOnFailure: true },
+  ignore: { ignoreDependencyOnFailure: true },   // Parent runs; failure visible via getIgnoredChildrenFailures()
+  continue: { continueParentOnFailure: true },   // Parent starts immediately, remaining children keep running
+  remove: { removeDependencyOnFailure: true },   // Parent runs as if the child never existed
+};
+
+export interface FlowNodeInput {
+  queue: string;
+  name: string;
+  data?: Record<string, unknown>;
+  opts?: { priority?: number; attempts?: number; delay?: number };
+  onFailure?: FailurePolicy;
+  children?: FlowNodeInput[];
+}
+
+export const flowNodeSchema: z.ZodType<FlowNodeInput> = z.lazy(() =>
+  z.object({
+    queue: z.string().min(1),
+    name: z.string().min(1),
+    data: z.record(z.string(), z.unknown()).optional(),
+    opts: z
+      .object({
+        priority: z.number().int().min(0).max(MAX_PRIORITY).optional(),
+        attempts: z.number().int().min(1).max(50).optional(),
+        delay: z.number().int().min(0).optional(),
+      })
+      .optional(),
+    onFailure: z.enum(FAILURE_POLICIES).optional(),
+    children: z.array(flowNodeSchema).optional(),
+  })
+);
+
+export const flowQueues = (node: FlowNodeInput): string[] => [
+  node.queue,
+  ...(node.children ?? []).flatMap(flowQueues),
+];
+
+// Jobs per queue, for rate limiting a flow by its node count
+export const flowJobCounts = (node: FlowNodeInput) =>
+  flowQueues(node).reduce<Record<string, number>>((counts, queue) => {
+    counts[queue] = (counts[queue] ?? 0) + 1;
+    return counts;
+  }, {});
+
+// Check queues, job names, payloads and tree size, applying schema defaults to
+// each node's data. Returns field-level errors.
+export const validateFlow = (root: FlowNodeInput): FieldError[] => {
+  const errors: FieldError[] = [];
+  let nodes = 0;
+
+  const visit = (node: FlowNodeInput, path: string, depth: number) => {
+    nodes++;
+    if (depth > MAX_FLOW_DEPTH) {
+      errors.push({ field: path, message: `Flows can be at most ${MAX_FLOW_DEPTH} levels deep` });
+      return;
+    }
+
+    const definition = getQueueDefinition(node.queue);
+    if (!definition) {
+      errors.push({ field: `${path}.queue`, message: `Unknown queue "${node.queue}"` });
+    } else if (definition.internal) {
+      errors.push({ field: `${path}.queue`, message: `Queue "${node.queue}" does not accept jobs from flows` });
+    } else if (definition.schemas) {
+      const schema = getJobSchema(definition, node.name);
+      if (!schema) {
+        errors.push({ field: `${path}.name`, message: `Unknown job "${node.name}" for ${definition.name}` });
+      } else {
+        const result = schema.safeParse(node.data ?? {});
+        if (!result.success) {
+          errors.push(...formatZodError(result.error).map(({ field, message }) => ({ field: `${path}.data.${field}`, message })));
+        } else {
+          node.data = result.data as Record<string, unknown>;
+        }
+      }
+    }
+
+    node.children?.forEach((child, index) => visit(child, `${path}.children.${index}`, depth + 1));
+  };
+
+  visit(root, 'flow', 1);
+  if (nodes > MAX_FLOW_NODES) {
+    errors.push({ field: 'flow', message: `Flows can have at most ${MAX_FLOW_NODES} jobs` });
+  }
+  return errors;
+};
+
+type FlowCorrelation = CorrelationOptions & TraceContextOptions;
+
+const toFlowJob = (node: FlowNodeInput, isChild: boolean, correlation: FlowCorrelation): FlowJob | FlowChildJob => ({
+  name: node.name,
+  queueName: getQueueDefinition(node.queue)!.name,
+  data: node.data ?? {},
+  opts: {
+    ...node.opts,
+    ...correlation,
+    ...(isChild ? FAILURE_OPTIONS[node.onFailure ?? 'fail-parent'] : {}),
+  },
+  children: node.children?.map(child => toFlowJob(child, true, correlation) as FlowChildJob),
+});
+
+let flowProducer: FlowProducer | undefined;
+
+const getFlowProducer = () => {
+  if (!flowProducer) {
+    flowProducer = new FlowProducer(bullmqOptions());
+  }
+  return flowProducer;
+};
+
+export const closeFlowProducer = async () => {
+  await flowProducer?.close();
+  flowProducer = undefined;
+};
+
+// Queue default job options (attempts, backoff) also apply to flow jobs
+const queuesOptions = Object.fromEntries(
+  queueDefinitions.map(definition => [definition.name, { defaultJobOptions: definition.defaultJobOptions }])
+);
+
+// Large node data goes to storage, as it does for Queue.add
+const offloadNode = async (node: FlowNodeInput): Promise<FlowNodeInput> => ({
+  ...node,
+  data: await offloadPayload(node.data ?? {}, getQueueDefinition(node.queue)!.name),
+  children: node.children && (await Promise.all(node.children.map(offloadNode))),
+});
+
+const trackNodePayloads = async (node: JobNode): Promise<void> => {
+  await trackPayloadOwner(node.job as Job);
+  await Promise.all((node.children ?? []).map(trackNodePayloads));
+};
+
+// Every job of the flow carries the request's correlation ID and trace context
+// `jobId` pins the root job's ID, e.g. one derived from an Idempotency-Key
+export const addFlow = async (root: FlowNodeInput, correlation: FlowCorrelation = {}, jobId?: string) => {
+  const flow = toFlowJob(await offloadNode(root), false, correlation) as FlowJob;
+  if (jobId) {
+    flow.opts = { ...flow.opts, jobId };
+  }
+  const node = await getFlowProducer().add(flow, { queuesOptions });
+  await trackNodePayloads(node);
+  return summarizeNode(node);
+};
+
+const keyForQueueName = (queueName: string) =>
+  queueDefinitions.find(definition => definition.name === queueName)?.key ?? queueName;
+
+const summarizeNode = (node: JobNode): { queue: string; jobId: string; name: string; children: unknown[] } => ({
+  queue: keyForQueueName(node.job.queueName),
+  jobId: node.job.id!,
+  name: node.job.name,
+  children: (node.children ?? []).map(summarizeNode),
+});
+
+type FlowStatusNode = Awaited<ReturnType<typeof serializeJob>> & { children: FlowStatusNode[] };
+
+const describeNode = async (node: JobNode): Promise<FlowStatusNode> => ({
+  ...(await serializeJob(node.job as Job, keyForQueueName(node.job.queueName))),
+  children: await Promise.all((node.children ?? []).map(describeNode)),
+});
+
+const countStates = (node: FlowStatusNode, counts: Record<string, number> = {}) => {
+  counts[node.state] = (counts[node.state] ?? 0) + 1;
+  node.children.forEach(child => countStates(child, counts));
+  return counts;
+};
+
+// Whole-flow status: the root job decides completion or failure, everything
+// else is still running
+export const getFlowStatus = async (queueKey: string, jobId: string) => {
+  const definition = getQueueDefinition(queueKey);
+  if (!definition) {
+    return null;
+  }
+
+  const root = await getFlowProducer().getFlow({
+    queueName: definition.name,
+    id: jobId,
+    depth: MAX_FLOW_DEPTH,
+    maxChildren: MAX_FLOW_NODES,
+  });
+  if (!root?.job) {
+    return null;
+  }
+
+  const tree = await describeNode(root);
+  const counts = countStates(tree);
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+  return {
+    status: tree.state === 'completed' ? 'completed' : tree.state === 'failed' ? 'failed' : 'running',
+    progress: { total, completed: counts.completed ?? 0, failed: counts.failed ?? 0, byState: counts },
+    root: tree,
+  };
+};
@@ -1,28 +1,22 @@
 import { Queue } from 'bullmq';
-import { redisConnection } from '../config/redis';
+import { bullmqOptions } from '../config/redis';
+import { queueDefinitions } from './registry';
+import { PayloadQueue } from '../payloads';
 
-// Define all queues
-export const helloQueue = new Queue('hello-queue', {
-  connection: redisConnection,
-});
+export { queueDefinitions, getQueueDefinition } from './registry';
+export * from './types';
 
-export const emailQueue = new Queue('email-queue', {
-  connection: redisConnection,
-});
+// Create one Queue per registered definition, keyed by its short key
+export const queues: Record<string, Queue> = Object.fromEntries(
+  queueDefinitions.map(definition => [
+    definition.key,
+    new PayloadQueue(definition.name, {
+      ...bullmqOptions(),
+      defaultJobOptions: definition.defaultJobOptions,
+    }),
+  ])
+);
 
-export const imageQueue = new Queue('image-queue', {
-  connection: redisConnection,
-});
+export const getQueue = (key: string): Queue | undefined => queues[key];
 
-export const criticalQueue = new Queue('critical-queue', {
-  connection: redisConnection,
-  defaultJobOptions: {
-    attempts: 3,
-    backoff: {
-      type: 'exponential',
-      delay: 2000,
-    },
-  },
-});
-
-export const allQueues = [helloQueue, emailQueue, imageQueue, criticalQueue];
+export const allQueues = Object.values(queues);
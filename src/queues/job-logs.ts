@@ -0,0 +1,47 @@
+import { Queue } from 'bullmq';
+
+export const JOB_LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type JobLogLevel = (typeof JOB_LOG_LEVELS)[number];
+
+export interface JobLogEntry {
+  timestamp: string | null;
+  level: JobLogLevel;
+  message: string;
+  fields?: Record<string, unknown>;
+}
+
+// Workers publish every log line here so the server can stream it live
+export const JOB_LOG_CHANNEL = 'job-logs';
+
+export interface JobLogMessage {
+  queueName: string;
+  jobId: string;
+  attempt: number;
+  requestId?: string;
+  entry: JobLogEntry;
+}
+
+// Log lines are stored as JSON; anything else (e.g. a raw job.log call) is kept as plain text
+export const parseJobLog = (line: string): JobLogEntry => {
+  try {
+    const parsed = JSON.parse(line);
+    if (parsed && typeof parsed.message === 'string') {
+      return parsed;
+    }
+  } catch {
+    // Not one of ours
+  }
+  return { timestamp: null, level: 'info', message: line };
+};
+
+// Most recent `limit` log lines of a job, oldest first
+export const getJobLogs = async (queue: Queue, jobId: string, limit: number) => {
+  if (limit === 0) {
+    const { count } = await queue.getJobLogs(jobId, 0, 0);
+    return { total: count, entries: [] };
+  }
+
+  const { logs, count } = await queue.getJobLogs(jobId, -limit, -1);
+  return { total: count, entries: logs.map(parseJobLog) };
+};
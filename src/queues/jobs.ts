@@ -0,0 +1,40 @@
+import { Job, JobType } from 'bullmq';
+
+export const JOB_STATES = [
+  'waiting',
+  'active',
+  'delayed',
+  'prioritized',
+  'waiting-children',
+  'paused',
+  'completed',
+  'failed',
+] as const satisfies readonly JobType[];
+
+// 1-based number of the attempt being (or last) processed
+export const currentAttempt = (job: Job) => job.attemptsStarted || job.attemptsMade + 1;
+
+const toIso = (timestamp?: number) => (timestamp ? new Date(timestamp).toISOString() : null);
+
+// Public view of a job, shared by the lookup and list endpoints
+export const serializeJob = async (job: Job, queueKey: string) => ({
+  id: job.id,
+  name: job.name,
+  queue: queueKey,
+  state: await job.getState(),
+  data: job.data,
+  progress: job.progress,
+  attemptsMade: job.attemptsMade,
+  maxAttempts: job.opts.attempts ?? 1,
+  returnValue: job.returnvalue ?? null,
+  failedReason: job.failedReason ?? null,
+  stacktrace: job.stacktrace ?? [],
+  timestamps: {
+    createdAt: toIso(job.timestamp),
+    processedAt: toIso(job.processedOn),
+    finishedAt: toIso(job.finishedOn),
+    delayUntil: job.delay ? toIso(job.timestamp + job.delay) : null,
+  },
+});
+
+export type SerializedJob = Awaited<ReturnType<typeof serializeJob>>;
@@ -0,0 +1,114 @@
+import { appChannel, getRedisClient } from '../config/redis';
+import { getQueue, queueDefinitions } from './index';
+
+export interface RateLimitSetting {
+  max: number;
+  duration: number; // ms
+}
+
+export interface QueueLimits {
+  globalConcurrency: number | null;        // Across every worker process
+  rateLimit: RateLimitSetting | null;      // Jobs per duration across every worker process
+  workerConcurrency: number | null;        // Per worker process; null = registry default
+}
+
+const WORKER_CONCURRENCY_KEY = 'worker-control:concurrency';
+
+// Global limits an operator removed at runtime ("email:rateLimit"), so that
+// seeding from the registry on the next start doesn't bring them back
+const REMOVED_LIMITS_KEY = 'queue-limits:removed';
+type GlobalLimit = 'globalConcurrency' | 'rateLimit';
+const removedLimit = (key: string, limit: GlobalLimit) => `${key}:${limit}`;
+export const WORKER_CONTROL_CHANNEL = 'worker-control';
+
+export interface WorkerControlMessage {
+  queue: string;
+  concurrency: number | null;
+}
+
+export const getWorkerConcurrencyOverrides = async (): Promise<Record<string, number>> => {
+  const raw = await getRedisClient().hgetall(WORKER_CONCURRENCY_KEY);
+  return Object.fromEntries(Object.entries(raw).map(([queue, value]) => [queue, parseInt(value)]));
+};
+
+export const getQueueLimits = async (key: string): Promise<QueueLimits> => {
+  const queue = getQueue(key)!;
+  const [globalConcurrency, rateLimit, workerConcurrency] = await Promise.all([
+    queue.getGlobalConcurrency(),
+    queue.getGlobalRateLimit(),
+    getRedisClient().hget(WORKER_CONCURRENCY_KEY, key),
+  ]);
+
+  return {
+    globalConcurrency,
+    rateLimit,
+    workerConcurrency: workerConcurrency ? parseInt(workerConcurrency) : null,
+  };
+};
+
+// Global settings live in the queue's Redis meta, which BullMQ workers read on
+// every fetch; per-process concurrency is broadcast to the worker processes.
+export const updateQueueLimits = async (key: string, changes: Partial<QueueLimits>) => {
+  const queue = getQueue(key)!;
+  const redis = getRedisClient();
+
+  if (changes.globalConcurrency !== undefined) {
+    if (changes.globalConcurrency === null) {
+      await queue.removeGlobalConcurrency();
+      await redis.sadd(REMOVED_LIMITS_KEY, removedLimit(key, 'globalConcurrency'));
+    } else {
+      await queue.setGlobalConcurrency(changes.globalConcurrency);
+      await redis.srem(REMOVED_LIMITS_KEY, removedLimit(key, 'globalConcurrency'));
+    }
+  }
+
+  if (changes.rateLimit !== undefined) {
+    if (changes.rateLimit === null) {
+      await queue.removeGlobalRateLimit();
+      await redis.sadd(REMOVED_LIMITS_KEY, removedLimit(key, 'rateLimit'));
+    } else {
+      await queue.setGlobalRateLimit(changes.rateLimit.max, changes.rateLimit.duration);
+      await redis.srem(REMOVED_LIMITS_KEY, removedLimit(key, 'rateLimit'));
+    }
+  }
+
+  if (changes.workerConcurrency !== undefined) {
+    if (changes.workerConcurrency === null) {
+      await redis.hdel(WORKER_CONCURRENCY_KEY, key);
+    } else {
+      await redis.hset(WORKER_CONCURRENCY_KEY, key, changes.workerConcurrency);
+    }
+    const message: WorkerControlMessage = { queue: key, concurrency: changes.workerConcurrency };
+    await redis.publish(appChannel(WORKER_CONTROL_CHANNEL), JSON.stringify(message));
+  }
+
+  return getQueueLimits(key);
+};
+
+// Seed limits declared in the registry, without overwriting values changed at
+// runtime or bringing back ones removed at runtime
+export const seedQueueLimits = async () => {
+  const removed = new Set(await getRedisClient().smembers(REMOVED_LIMITS_KEY));
+
+  for (const definition of queueDefinitions) {
+    if (!definition.limits) continue;
+
+    const queue = getQueue(definition.key)!;
+    const { globalConcurrency, rateLimit } = definition.limits;
+
+    if (
+      globalConcurrency &&
+      !removed.has(removedLimit(definition.key, 'globalConcurrency')) &&
+      (await queue.getGlobalConcurrency()) === null
+    ) {
+      await queue.setGlobalConcurrency(globalConcurrency);
+    }
+    if (
+      rateLimit &&
+      !removed.has(removedLimit(definition.key, 'rateLimit')) &&
+      (await queue.getGlobalRateLimit()) === null
+    ) {
+      await queue.setGlobalRateLimit(rateLimit.max, rateLimit.duration);
+    }
+  }
+};
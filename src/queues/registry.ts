@@ -0,0 +1,185 @@
+import { QueueDefinition } from './types';
+import { helloProcessor } from '../processors/hello';
+import { emailProcessor } from '../processors/email';
+import { imageProcessor } from '../processors/image';
+import { criticalProcessor } from '../processors/critical';
+import { webhookProcessor } from '../processors/webhook';
+import { RETRY_AFTER_BACKOFF } from '../processors/backoff';
+import {
+  helloJobSchema,
+  batchJobSchema,
+  emailJobSchema,
+  imageJobSchema,
+  criticalJobSchema,
+  webhookJobSchema,
+  delayedRequestSchema,
+  DelayedRequest,
+} from './schemas';
+import { logger } from '../logging/logger';
+
+const log = logger.child({ component: 'queue-events' });
+
+// ==========================================
+// QUEUE REGISTRY
+// ==========================================
+// Each queue is declared once here. Queues, Bull Board adapters, POST /jobs/*
+// routes, workers and QueueEvents listeners are all derived from this list.
+
+export const queueDefinitions: QueueDefinition[] = [
+  {
+    key: 'hello',
+    name: 'hello-queue',
+    label: 'HELLO',
+    description: 'Always succeeds',
+    schemas: {
+      'hello-job': helloJobSchema,
+      'delayed-hello': helloJobSchema,
+      'batch-job': batchJobSchema,
+    },
+    routes: [
+      {
+        route: 'hello',
+        jobName: 'hello-job',
+        description: 'Add hello job (always succeeds)',
+        toJob: ({ name }) => ({ data: { name, addedBy: process.pid } }),
+      },
+      {
+        route: 'delayed',
+        jobName: 'delayed-hello',
+        description: 'Add delayed job',
+        body: delayedRequestSchema,
+        toJob: body => {
+          const { name, delayMs } = body as DelayedRequest;
+          return {
+            data: { name },
+            opts: { delay: delayMs },
+            response: { delayMs, willRunAt: new Date(Date.now() + delayMs).toISOString() },
+          };
+        },
+      },
+    ],
+    processor: helloProcessor,
+    concurrency: 5, // Process 5 jobs simultaneously
+    deadLetter: true,
+    events: {
+      completed: ({ jobId }) => {
+        log.info('Job completed', { queue: 'hello', jobId });
+      },
+      failed: ({ jobId, failedReason }) => {
+        log.warn('Job failed', { queue: 'hello', jobId, reason: failedReason });
+      },
+    },
+  },
+  {
+    key: 'email',
+    name: 'email-queue',
+    label: 'EMAIL',
+    description: 'Prioritised email delivery',
+    defaultJobOptions: {
+      attempts: 5, // Transient SMTP failures retry; permanent rejections fail at once
+      backoff: {
+        type: 'exponential',
+        delay: 10000,
+      },
+    },
+    schemas: { 'send-email': emailJobSchema },
+    routes: [
+      {
+        route: 'email',
+        jobName: 'send-email',
+        description: 'Add email job with priority (type = template, variables, attachments by path)',
+        toJob: body => ({
+          data: body,
+          opts: { priority: body.priority === 'high' ? 1 : body.priority === 'normal' ? 5 : 10 },
+          response: { priority: body.priority },
+        }),
+      },
+    ],
+    processor: emailProcessor,
+    concurrency: 10, // Email workers can handle more concurrent jobs
+    limits: {
+      globalConcurrency: 10, // Across all worker instances, to protect the SMTP provider
+      rateLimit: { max: 50, duration: 60000 },
+    },
+    deadLetter: true,
+    events: {
+      completed: ({ jobId }) => {
+        log.info('Job completed', { queue: 'email', jobId });
+      },
+    },
+  },
+  {
+    key: 'image',
+    name: 'image-queue',
+    label: 'IMAGE',
+    description: 'Resizes images into stored variants',
+    schemas: { 'process-image': imageJobSchema },
+    routes: [
+      {
+        route: 'image',
+        jobName: 'process-image',
+        description: 'Resize { filename, source?, data?, variants?, formats? } into stored variants (invalid images fail permanently)',
+      },
+    ],
+    processor: imageProcessor,
+    concurrency: 3, // Image processing is resource-intensive
+    sandbox: { mode: 'process', memoryMb: 1024, timeoutMs: 2 * 60_000 },
+    deadLetter: true,
+    events: {
+      failed: ({ jobId, failedReason }) => {
+        log.warn('Job failed', { queue: 'image', jobId, reason: failedReason });
+      },
+    },
+  },
+  {
+    key: 'critical',
+    name: 'critical-queue',
+    label: 'CRITICAL',
+    description: 'Retries 3 times',
+    defaultJobOptions: {
+      attempts: 3,
+      backoff: {
+        type: 'exponential',
+        delay: 2000,
+      },
+    },
+    schemas: { 'critical-task': criticalJobSchema },
+    routes: [
+      {
+        route: 'critical',
+        jobName: 'critical-task',
+        description: 'Add critical job (retries 3 times)',
+        toJob: body => ({ data: body, response: { note: 'Will retry up to 3 times' } }),
+      },
+    ],
+    processor: criticalProcessor,
+    concurrency: 2,
+    sandbox: { mode: 'thread' },
+    deadLetter: true,
+    events: {
+      completed: ({ jobId }) => {
+        log.info('Job completed after retries', { queue: 'critical', jobId });
+      },
+    },
+  },
+  {
+    key: 'webhook',
+    name: 'webhook-queue',
+    label: 'WEBHOOK',
+    description: 'Delivers callbackUrl notifications',
+    defaultJobOptions: {
+      attempts: 6,
+      backoff: {
+        type: RETRY_AFTER_BACKOFF, // Exponential, or the receiver's Retry-After on a 429
+        delay: 5000,
+      },
+    },
+    schemas: { 'deliver-webhook': webhookJobSchema },
+    processor: webhookProcessor,
+    concurrency: 10,
+    internal: true,
+  },
+];
+
+export const getQueueDefinition = (key: string) =>
+  queueDefinitions.find(definition => definition.key === key);
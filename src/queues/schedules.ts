@@ -0,0 +1,158 @@
+import { JobSchedulerJson } from 'bullmq';
+import { z } from 'zod';
+import { getQueue, getQueueDefinition, queues } from './index';
+import { getJobSchema } from './validation';
+
+// Schedulers declared in config are tagged with this prefix, so startup
+// reconciliation can tell them apart from ones created through the API
+export const CONFIG_SCHEDULE_PREFIX = 'config:';
+
+const isValidTimeZone = (tz: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const scheduleSpecSchema = z
+  .object({
+    pattern: z
+      .string()
+      .trim()
+      .regex(/^(\S+\s+){4,5}\S+$/, 'Expected a cron expression with 5 or 6 fields')
+      .optional(),
+    tz: z.string().refine(isValidTimeZone, 'Unknown time zone').optional(),
+    every: z.number().int().min(1000).optional(),
+    startDate: z.iso.datetime().optional(),
+    endDate: z.iso.datetime().optional(),
+    limit: z.number().int().min(1).optional(),
+    job: z.object({
+      name: z.string().min(1),
+      data: z.record(z.string(), z.unknown()).default({}),
+      opts: z
+        .object({
+          priority: z.number().int().min(0).optional(),
+          attempts: z.number().int().min(1).max(50).optional(),
+        })
+        .optional(),
+    }),
+  })
+  .refine(spec => !!spec.pattern !== !!spec.every, {
+    message: 'Provide exactly one of "pattern" or "every"',
+    path: ['pattern'],
+  })
+  .refine(spec => !spec.tz || !!spec.pattern, {
+    message: '"tz" only applies to cron patterns',
+    path: ['tz'],
+  });
+
+export type ScheduleSpec = z.infer<typeof scheduleSpecSchema>;
+
+export interface ScheduleConfig extends z.input<typeof scheduleSpecSchema> {
+  id: string;
+  queue: string;
+}
+
+export class ScheduleError extends Error {
+  constructor(message: string, readonly details: { field: string; message: string }[] = []) {
+    super(message);
+    this.name = 'ScheduleError';
+  }
+}
+
+// Checks the template's job name and data against the queue's payload schemas
+const validateTemplate = (queueKey: string, spec: ScheduleSpec) => {
+  const definition = getQueueDefinition(queueKey);
+  if (!definition) {
+    throw new ScheduleError(`Unknown queue "${queueKey}"`);
+  }
+  if (definition.internal) {
+    throw new ScheduleError(`Queue "${queueKey}" does not accept scheduled jobs`);
+  }
+  if (!definition.schemas) {
+    return spec.job.data;
+  }
+
+  const schema = getJobSchema(definition, spec.job.name);
+  if (!schema) {
+    throw new ScheduleError('Validation failed', [
+      { field: 'job.name', message: `Unknown job "${spec.job.name}" for ${definition.name}` },
+    ]);
+  }
+
+  const result = schema.safeParse(spec.job.data);
+  if (!result.success) {
+    throw new ScheduleError(
+      'Validation failed',
+      result.error.issues.map(issue => ({ field: ['job', 'data', ...issue.path].join('.'), message: issue.message }))
+    );
+  }
+  return result.data as Record<string, unknown>;
+};
+
+export const upsertSchedule = async (queueKey: string, id: string, spec: ScheduleSpec) => {
+  const data = validateTemplate(queueKey, spec);
+
+  await getQueue(queueKey)!.upsertJobScheduler(
+    id,
+    {
+      pattern: spec.pattern,
+      every: spec.every,
+      tz: spec.tz,
+      startDate: spec.startDate,
+      endDate: spec.endDate,
+      limit: spec.limit,
+    },
+    { name: spec.job.name, data, opts: spec.job.opts }
+  );
+
+  return getQueue(queueKey)!.getJobScheduler(id);
+};
+
+export const serializeSchedule = (queueKey: string, scheduler: JobSchedulerJson) => ({
+  id: scheduler.key,
+  queue: queueKey,
+  managedBy: scheduler.key.startsWith(CONFIG_SCHEDULE_PREFIX) ? 'config' : 'api',
+  pattern: scheduler.pattern ?? null,
+  tz: scheduler.tz ?? null,
+  every: scheduler.every ?? null,
+  limit: scheduler.limit ?? null,
+  iterationCount: scheduler.iterationCount ?? 0,
+  startDate: scheduler.startDate ? new Date(scheduler.startDate).toISOString() : null,
+  endDate: scheduler.endDate ? new Date(scheduler.endDate).toISOString() : null,
+  nextRunAt: scheduler.next ? new Date(scheduler.next).toISOString() : null,
+  job: { name: scheduler.name, ...scheduler.template },
+});
+
+export const listSchedules = async (queueKey: string) => {
+  const schedulers = await getQueue(queueKey)!.getJobSchedulers(0, -1, true);
+  return schedulers.map(scheduler => serializeSchedule(queueKey, scheduler));
+};
+
+// Upsert every declared schedule and drop config-managed ones that are no longer declared
+export const reconcileSchedules = async (declared: ScheduleConfig[]) => {
+  const wanted = new Map<string, Set<string>>();
+
+  for (const { id, queue, ...input } of declared) {
+    const spec = scheduleSpecSchema.parse(input);
+    const schedulerId = `${CONFIG_SCHEDULE_PREFIX}${id}`;
+    await upsertSchedule(queue, schedulerId, spec);
+
+    if (!wanted.has(queue)) wanted.set(queue, new Set());
+    wanted.get(queue)!.add(schedulerId);
+  }
+
+  let removed = 0;
+  for (const [key, queue] of Object.entries(queues)) {
+    for (const scheduler of await queue.getJobSchedulers(0, -1, true)) {
+      if (scheduler.key.startsWith(CONFIG_SCHEDULE_PREFIX) && !wanted.get(key)?.has(scheduler.key)) {
+        await queue.removeJobScheduler(scheduler.key);
+        removed++;
+      }
+    }
+  }
+
+  return { upserted: declared.length, removed };
+};
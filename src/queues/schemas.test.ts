@@ -0,0 +1,15 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { imageJobSchema } from './schemas';
+
+describe('imageJobSchema', () => {
+  it('reads sources from uploads/', () => {
+    assert.ok(imageJobSchema.safeParse({ filename: 'photo.jpg', source: 'uploads/2024/photo.jpg' }).success);
+  });
+
+  it('refuses sources outside uploads/', () => {
+    for (const source of ['images/job-1/thumbnail.webp', 'payloads/job-1.json', 'uploads/../payloads/job-1.json', 'uploads']) {
+      assert.equal(imageJobSchema.safeParse({ filename: 'photo.jpg', source }).success, false, source);
+    }
+  });
+});
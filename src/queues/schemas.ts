@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { emailTemplates, missingVariables } from '../email/templates';
+import { isSafeAttachmentPath } from '../email/attachments';
+import { IMAGE_FORMATS, imageConfig } from '../config/images';
+import { isValidStorageKey } from '../storage';
+
+// ==========================================
+// JOB PAYLOAD SCHEMAS
+// ==========================================
+// Checked by the API before Queue.add and again by the worker before the
+// processor runs, so jobs from other producers are rejected cleanly.
+
+export const helloJobSchema = z.object({
+  name: z.string().trim().min(1).max(100).default('World'),
+  addedBy: z.number().int().optional(),
+});
+
+export const batchJobSchema = z.object({
+  name: z.string().min(1).max(100),
+  batchId: z.number().int(),
+});
+
+export const emailJobSchema = z
+  .object({
+    to: z.email(),
+    subject: z.string().max(200).optional(), // Overrides the template's subject
+    priority: z.enum(['high', 'normal', 'low']).default('normal'),
+    type: z
+      .string()
+      .min(1)
+      .max(50)
+      .refine(type => type in emailTemplates, `Unknown email type (known: ${Object.keys(emailTemplates).join(', ')})`)
+      .default('notification'),
+    variables: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).default({}),
+    attachments: z
+      .array(
+        z.object({
+          path: z.string().min(1).max(500).refine(isSafeAttachmentPath, 'Must be relative to the attachments directory'),
+          filename: z.string().min(1).max(255).optional(),
+        })
+      )
+      .max(10)
+      .default([]),
+  })
+  .superRefine((data, ctx) => {
+    const missing = missingVariables(data.type, data.variables, data.subject);
+    if (missing.length) {
+      ctx.addIssue({ code: 'custom', path: ['variables'], message: `Missing template variables: ${missing.join(', ')}` });
+    }
+  });
+
+// Producers may only read originals from uploads/, not other jobs' images/ outputs
+// or offloaded payloads/ (isValidStorageKey already refuses "." and ".." segments)
+const UPLOADS_PREFIX = 'uploads/';
+const uploadKey = z
+  .string()
+  .refine(key => isValidStorageKey(key) && key.startsWith(UPLOADS_PREFIX), 'Must be a storage key under uploads/, such as uploads/photo.jpg');
+
+// The original comes from storage (`source`, default uploads/<filename>) or inline as base64 `data`
+export const imageJobSchema = z
+  .object({
+    filename: z.string().trim().min(1).max(255).refine(isValidStorageKey, 'Must be a file name or relative path'),
+    source: uploadKey.optional(),
+    data: z.base64().min(1).optional(),
+    variants: z
+      .array(
+        z
+          .string()
+          .refine(
+            name => imageConfig.variants.some(variant => variant.name === name),
+            `Unknown variant (known: ${imageConfig.variants.map(variant => variant.name).join(', ')})`
+          )
+      )
+      .min(1)
+      .optional(),    // Defaults to every configured variant
+    formats: z.array(z.enum(IMAGE_FORMATS)).min(1).optional(),
+  })
+  .refine(data => !(data.source && data.data), { path: ['data'], message: 'Give either source or data, not both' });
+
+export const criticalJobSchema = z.object({
+  task: z.string().trim().min(1).max(500),
+});
+
+export const webhookJobSchema = z.object({
+  event: z.enum(['completed', 'failed']),
+  sourceQueue: z.string().min(1),
+  sourceJobId: z.string().min(1),
+  payload: z.record(z.string(), z.unknown()),
+});
+
+// Request bodies that carry more than the job payload
+
+export const delayedRequestSchema = helloJobSchema.extend({
+  name: z.string().trim().min(1).max(100).default('Delayed User'),
+  delayMs: z.number().int().min(0).max(7 * 24 * 60 * 60 * 1000).default(5000),
+});
+
+export const batchRequestSchema = z.object({
+  count: z.number().int().min(1).max(1000).default(10),
+});
+
+export type HelloJobData = z.infer<typeof helloJobSchema>;
+export type EmailJobData = z.infer<typeof emailJobSchema>;
+export type ImageJobData = z.infer<typeof imageJobSchema>;
+export type CriticalJobData = z.infer<typeof criticalJobSchema>;
+export type DelayedRequest = z.infer<typeof delayedRequestSchema>;
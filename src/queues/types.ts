@@ -0,0 +1,52 @@
+import { DefaultJobOptions, JobsOptions, Processor, QueueEventsListener } from 'bullmq';
+import { ZodType } from 'zod';
+
+export type QueueEventHooks = Partial<
+  Pick<QueueEventsListener, 'waiting' | 'active' | 'progress' | 'completed' | 'failed' | 'stalled' | 'delayed'>
+>;
+
+// Run the processor outside the worker's event loop: a forked child process
+// (own heap, survives native crashes) or a worker thread (cheaper to start).
+// A crash or a limit breach fails only the job being processed.
+export interface SandboxOptions {
+  mode: 'process' | 'thread';
+  memoryMb?: number;               // Defaults to SANDBOX_MEMORY_MB
+  timeoutMs?: number;              // Defaults to SANDBOX_TIMEOUT_MS
+}
+
+// What a route turns its validated request body into
+export interface RoutedJob {
+  data: unknown;
+  opts?: JobsOptions;
+  response?: Record<string, unknown>; // Extra fields for the 201 response
+}
+
+// A POST /jobs/<route> endpoint that adds one job to the queue
+export interface JobRoute {
+  route: string;                   // Path segment; also scopes rate limits and Idempotency-Keys
+  jobName: string;
+  description: string;             // Listed on GET /
+  body?: ZodType;                  // Request body schema, when it differs from the job's payload schema
+  toJob?: (body: Record<string, unknown>) => RoutedJob; // Gets the validated body; defaults to it as job data
+}
+
+// Everything the server and the workers need to know about a queue
+export interface QueueDefinition {
+  key: string;                     // Short name used in routes, e.g. /queues/:queue/pause
+  name: string;                    // BullMQ queue name
+  label: string;                   // Log prefix, e.g. [HELLO-WORKER]
+  description?: string;
+  defaultJobOptions?: DefaultJobOptions;
+  schemas?: Record<string, ZodType>; // Payload schema per job name
+  routes?: JobRoute[];
+  processor: Processor;
+  concurrency?: number;
+  sandbox?: SandboxOptions;        // One sandbox per concurrent job
+  limits?: {                       // Seeded into Redis on startup, adjustable at runtime
+    globalConcurrency?: number;
+    rateLimit?: { max: number; duration: number };
+  };
+  deadLetter?: boolean;            // Move jobs that exhaust their retries to <name>-dlq
+  internal?: boolean;              // Fed by the app itself; flows, schedules and DLQ replay reject it
+  events?: QueueEventHooks;
+}
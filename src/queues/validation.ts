@@ -0,0 +1,38 @@
+import { UnrecoverableError } from 'bullmq';
+import { ZodError, ZodType } from 'zod';
+import { QueueDefinition } from './types';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export const formatZodError = (error: ZodError): FieldError[] =>
+  error.issues.map(issue => ({
+    field: issue.path.length ? issue.path.join('.') : '(root)',
+    message: issue.message,
+  }));
+
+export const getJobSchema = (definition: QueueDefinition, jobName: string): ZodType | undefined =>
+  definition.schemas?.[jobName];
+
+// Re-check job data inside the worker. Invalid jobs fail without retries,
+// since running them again would not make the payload any more valid.
+export const assertValidJobData = (definition: QueueDefinition, jobName: string, data: unknown) => {
+  if (!definition.schemas) {
+    return;
+  }
+
+  const schema = getJobSchema(definition, jobName);
+  if (!schema) {
+    throw new UnrecoverableError(`Unknown job "${jobName}" for ${definition.name}`);
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const details = formatZodError(result.error)
+      .map(({ field, message }) => `${field}: ${message}`)
+      .join('; ');
+    throw new UnrecoverableError(`Invalid job data for "${jobName}": ${details}`);
+  }
+};
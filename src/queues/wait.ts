@@ -0,0 +1,35 @@
+import { Job } from 'bullmq';
+import { getQueueEvents } from './events';
+import { rehydratePayload } from '../payloads';
+
+export type WaitOutcome =
+  | { state: 'completed'; result: unknown }
+  | { state: 'failed'; failedReason: string }
+  | { state: 'timeout' };
+
+// Block until the job finishes or `timeoutMs` elapses, whichever comes first
+export const waitForJob = async (job: Job, queueKey: string, timeoutMs: number): Promise<WaitOutcome> => {
+  const events = getQueueEvents(queueKey);
+  if (!events) {
+    throw new Error(`No queue registered for key "${queueKey}"`);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<WaitOutcome>(resolve => {
+    timer = setTimeout(() => resolve({ state: 'timeout' }), timeoutMs);
+  });
+
+  // Give BullMQ a slightly longer TTL so its listeners are always cleaned up
+  const finished = job
+    .waitUntilFinished(events, timeoutMs + 1000)
+    .then(
+      async (result): Promise<WaitOutcome> => ({ state: 'completed', result: await rehydratePayload(result) }),
+      (error: Error): WaitOutcome => ({ state: 'failed', failedReason: error.message })
+    );
+
+  try {
+    return await Promise.race([finished, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
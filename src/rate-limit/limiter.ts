@@ -0,0 +1,79 @@
+import { getRedisClient } from '../config/redis';
+
+export interface LimitCheck {
+  name: string;        // e.g. "route", "queue" or "daily-quota"
+  key: string;
+  limit: number;
+  windowMs: number;
+  cost: number;
+}
+
+export interface LimitState {
+  name: string;
+  limit: number;
+  remaining: number;
+  resetMs: number;
+}
+
+export type LimitResult =
+  | { allowed: true; states: LimitState[] }
+  | { allowed: false; rejectedBy: LimitState };
+
+// Checks every window first and only consumes when all of them have room,
+// so rejected requests don't eat into the client's budget.
+const CONSUME_SCRIPT = `
+local n = #KEYS
+for i = 1, n do
+  local limit = tonumber(ARGV[(i - 1) * 3 + 1])
+  local cost = tonumber(ARGV[(i - 1) * 3 + 3])
+  local current = tonumber(redis.call('GET', KEYS[i]) or '0')
+  if current + cost > limit then
+    return {0, i, current, redis.call('PTTL', KEYS[i])}
+  end
+end
+local result = {1}
+for i = 1, n do
+  local window = tonumber(ARGV[(i - 1) * 3 + 2])
+  local cost = tonumber(ARGV[(i - 1) * 3 + 3])
+  local value = redis.call('INCRBY', KEYS[i], cost)
+  if redis.call('PTTL', KEYS[i]) < 0 then
+    redis.call('PEXPIRE', KEYS[i], window)
+  end
+  table.insert(result, value)
+  table.insert(result, redis.call('PTTL', KEYS[i]))
+end
+return result
+`;
+
+export const consume = async (checks: LimitCheck[]): Promise<LimitResult> => {
+  const args = checks.flatMap(check => [check.limit, check.windowMs, check.cost]);
+  const reply = (await getRedisClient().eval(
+    CONSUME_SCRIPT,
+    checks.length,
+    ...checks.map(check => check.key),
+    ...args
+  )) as number[];
+
+  if (reply[0] === 0) {
+    const check = checks[reply[1] - 1];
+    return {
+      allowed: false,
+      rejectedBy: {
+        name: check.name,
+        limit: check.limit,
+        remaining: Math.max(check.limit - reply[2], 0),
+        resetMs: reply[3] > 0 ? reply[3] : check.windowMs,
+      },
+    };
+  }
+
+  return {
+    allowed: true,
+    states: checks.map((check, index) => ({
+      name: check.name,
+      limit: check.limit,
+      remaining: Math.max(check.limit - reply[1 + index * 2], 0),
+      resetMs: reply[2 + index * 2],
+    })),
+  };
+};
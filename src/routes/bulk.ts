@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { getQueue } from '../queues';
+import { JOB_STATES } from '../queues/jobs';
+import { BulkAction, runBulkAction } from '../queues/bulk';
+import { formatZodError } from '../queues/validation';
+
+const MAX_BULK_LIMIT = 10000;
+
+const filterSchema = z.object({
+  name: z.string().min(1).optional(),
+  olderThanMs: z.number().int().min(0).optional(),
+  data: z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
+  limit: z.number().int().min(1).max(MAX_BULK_LIMIT).default(1000),
+  dryRun: z.boolean().default(false),
+});
+
+const removeSchema = filterSchema.extend({
+  state: z.enum(JOB_STATES.filter(state => state !== 'active')),
+});
+
+export const bulkRouter = Router();
+
+const bulkRoute = (action: BulkAction, schema: typeof filterSchema | typeof removeSchema, fixedState?: 'failed' | 'delayed') =>
+  bulkRouter.post(`/:queue/bulk/${action}`, async (req, res) => {
+    try {
+      const queue = getQueue(req.params.queue);
+      if (!queue) {
+        return res.status(404).json({ error: 'Queue not found' });
+      }
+
+      const body = schema.safeParse(req.body ?? {});
+      if (!body.success) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: formatZodError(body.error),
+        });
+      }
+
+      const { dryRun, ...filter } = body.data;
+      const state = fixedState ?? (body.data as z.infer<typeof removeSchema>).state;
+      const result = await runBulkAction(queue, action, state, filter, dryRun);
+
+      res.json({ success: result.errors.length === 0, queue: req.params.queue, ...result });
+    } catch (error) {
+      res.status(500).json({ success: false, error: String(error) });
+    }
+  });
+
+// Retry failed jobs, promote delayed jobs, or remove jobs in any non-active state.
+// Body: { name?, olderThanMs?, data?: { 'path.to.field': value }, limit?, dryRun? }
+bulkRoute('retry', filterSchema, 'failed');
+bulkRoute('promote', filterSchema, 'delayed');
+bulkRoute('remove', removeSchema);
@@ -0,0 +1,175 @@
+import { RequestHandler, Router } from 'express';
+import { z } from 'zod';
+import { getQueueDefinition } from '../queues';
+import {
+  findDeadLetters,
+  getDeadLetterQueue,
+  replayDeadLetter,
+  serializeDeadLetter,
+} from '../queues/dead-letter';
+import { formatZodError, getJobSchema } from '../queues/validation';
+
+const filterSchema = z.object({
+  name: z.string().min(1).optional(),
+  reason: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+const replayOneSchema = z.object({
+  data: z.unknown().optional(),
+});
+
+export const dlqRouter = Router();
+
+// Resolves :queue to its DLQ, answering 404 for unknown or DLQ-less queues
+dlqRouter.param('queue', (req, res, next, key: string) => {
+  const deadLetterQueue = getDeadLetterQueue(key);
+  if (!deadLetterQueue) {
+    return res.status(404).json({ error: 'Queue not found or has no dead-letter queue' });
+  }
+  next();
+});
+
+const parseFilter = (input: unknown) => filterSchema.safeParse(input ?? {});
+
+// Internal queues only take jobs from the app itself, so their entries can't be replayed
+const replayable: RequestHandler = (req, res, next) => {
+  if (getQueueDefinition(req.params.queue)?.internal) {
+    return res.status(400).json({ success: false, error: `Queue "${req.params.queue}" does not accept replays` });
+  }
+  next();
+};
+
+// 1. List DLQ entries (?name=&reason=&limit=)
+dlqRouter.get('/:queue', async (req, res) => {
+  try {
+    const filter = parseFilter(req.query);
+    if (!filter.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(filter.error),
+      });
+    }
+
+    const entries = await findDeadLetters(req.params.queue, filter.data);
+    res.json({
+      queue: req.params.queue,
+      total: entries.length,
+      entries: entries.map(serializeDeadLetter),
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// 2. View one DLQ entry with its full error history
+dlqRouter.get('/:queue/:id', async (req, res) => {
+  try {
+    const entry = await getDeadLetterQueue(req.params.queue)!.getJob(req.params.id);
+    if (!entry) {
+      return res.status(404).json({ error: 'Dead-letter entry not found' });
+    }
+    res.json(serializeDeadLetter(entry));
+  } catch (error) {
+    res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// 3. Replay a single entry, optionally with edited data
+dlqRouter.post('/:queue/:id/replay', replayable, async (req, res) => {
+  try {
+    const body = replayOneSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(body.error),
+      });
+    }
+
+    const entry = await getDeadLetterQueue(req.params.queue)!.getJob(req.params.id);
+    if (!entry) {
+      return res.status(404).json({ error: 'Dead-letter entry not found' });
+    }
+
+    let data = body.data.data;
+    if (data !== undefined) {
+      const schema = getJobSchema(getQueueDefinition(req.params.queue)!, entry.data.name);
+      const parsed = schema?.safeParse(data);
+      if (parsed && !parsed.success) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: formatZodError(parsed.error),
+        });
+      }
+      data = parsed?.data ?? data;
+    }
+
+    const job = await replayDeadLetter(req.params.queue, entry, data);
+    res.json({ success: true, jobId: job.id, queue: req.params.queue, edited: data !== undefined });
+  } catch (error) {
+    res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// 4. Replay every entry matching the filter in the body ({ name, reason, limit })
+dlqRouter.post('/:queue/replay', replayable, async (req, res) => {
+  try {
+    const filter = parseFilter(req.body);
+    if (!filter.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(filter.error),
+      });
+    }
+
+    const entries = await findDeadLetters(req.params.queue, filter.data);
+    const jobIds = [];
+    for (const entry of entries) {
+      const job = await replayDeadLetter(req.params.queue, entry);
+      jobIds.push(job.id);
+    }
+
+    res.json({ success: true, replayed: jobIds.length, jobIds, queue: req.params.queue });
+  } catch (error) {
+    res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// 5. Purge a single entry
+dlqRouter.delete('/:queue/:id', async (req, res) => {
+  try {
+    const entry = await getDeadLetterQueue(req.params.queue)!.getJob(req.params.id);
+    if (!entry) {
+      return res.status(404).json({ error: 'Dead-letter entry not found' });
+    }
+    await entry.remove();
+    res.json({ success: true, purged: 1, queue: req.params.queue });
+  } catch (error) {
+    res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// 6. Purge every entry matching the query filter (all entries when no filter is given)
+dlqRouter.delete('/:queue', async (req, res) => {
+  try {
+    const filter = parseFilter(req.query);
+    if (!filter.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(filter.error),
+      });
+    }
+
+    const entries = await findDeadLetters(req.params.queue, filter.data);
+    await Promise.all(entries.map(entry => entry.remove()));
+
+    res.json({ success: true, purged: entries.length, queue: req.params.queue });
+  } catch (error) {
+    res.status(500).json({ success: false, error: String(error) });
+  }
+});
@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { getQueueDefinition } from '../queues';
+import { STREAMED_EVENTS, subscribeToJobEvents } from '../queues/event-stream';
+import { formatZodError } from '../queues/validation';
+import { Principal, canAccessQueue } from '../auth';
+
+const HEARTBEAT_MS = 15000;
+
+const csv = <T extends z.ZodType<unknown, string>>(item: T) =>
+  z
+    .string()
+    .transform(value => value.split(',').map(part => part.trim()).filter(Boolean))
+    .pipe(z.array(item))
+    .optional();
+
+const streamQuerySchema = z.object({
+  queue: csv(z.string().refine(key => !!getQueueDefinition(key), 'Unknown queue')),
+  jobId: csv(z.string()),
+  event: csv(z.enum(STREAMED_EVENTS)),
+});
+
+export const eventsRouter = Router();
+
+// Server-Sent Events stream of job lifecycle events
+// e.g. GET /events?queue=image,email&jobId=42&event=progress,completed
+eventsRouter.get('/', (req, res) => {
+  const query = streamQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: formatZodError(query.error),
+    });
+  }
+
+  const { queue: queues, jobId: jobIds, event: eventTypes } = query.data;
+  const principal: Principal = res.locals.principal;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(`retry: 3000\n\n`);
+
+  const unsubscribe = subscribeToJobEvents(event => {
+    if (queues && !queues.includes(event.queue)) return;
+    if (!canAccessQueue(principal, event.queue)) return;
+    if (jobIds && !jobIds.includes(event.jobId)) return;
+    if (eventTypes && !eventTypes.includes(event.event)) return;
+
+    res.write(`event: ${event.event}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  const heartbeat = setInterval(() => res.write(`: heartbeat\n\n`), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,66 @@
+import { RequestHandler, Router } from 'express';
+import { addFlow, flowJobCounts, flowNodeSchema, flowQueues, getFlowStatus, validateFlow } from '../queues/flows';
+import { idempotency, markEnqueued } from '../middleware/idempotency';
+import { rateLimit } from '../middleware/rate-limit';
+import { validateBody } from '../middleware/validate';
+import { injectTraceContext } from '../tracing/jobs';
+import { Principal, auditRejection, authorize, canAccessQueue } from '../auth';
+
+export const flowsRouter = Router();
+
+// Checks queue scopes and the whole tree before anything is rate limited
+const checkFlow: RequestHandler = (req, res, next) => {
+  const principal: Principal = res.locals.principal;
+  const forbidden = flowQueues(req.body).find(queue => !canAccessQueue(principal, queue));
+  if (forbidden) {
+    auditRejection(req, { status: 403, reason: 'queue out of scope', principal, queue: forbidden });
+    return res.status(403).json({ success: false, error: `Forbidden: no access to queue "${forbidden}"` });
+  }
+
+  const errors = validateFlow(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ success: false, error: 'Validation failed', details: errors });
+  }
+  next();
+};
+
+// 1. Create a flow: a tree of jobs across registered queues. Children run
+// first; the parent reads their results with job.getChildrenValues().
+// Every node counts against the rate limits of its queue.
+flowsRouter.post(
+  '/',
+  authorize('produce'),
+  idempotency({ route: 'flows', queue: req => req.body?.queue }),
+  validateBody(flowNodeSchema),
+  checkFlow,
+  rateLimit({ route: 'flows', queue: req => flowJobCounts(req.body) }),
+  async (req, res) => {
+    try {
+      const correlation = { requestId: res.locals.requestId, ...injectTraceContext() };
+      const flow = await addFlow(req.body, correlation, res.locals.idempotentJobId);
+      markEnqueued(res);
+      res.status(201).json({
+        success: true,
+        flowId: flow.jobId,
+        queue: flow.queue,
+        statusUrl: `/flows/${flow.queue}/${flow.jobId}`,
+        jobs: flow,
+      });
+    } catch (error) {
+      res.status(500).json({ success: false, error: String(error) });
+    }
+  }
+);
+
+// 2. Aggregated status of a flow, addressed by its root job
+flowsRouter.get('/:queue/:id', authorize('view', { queue: req => req.params.queue }), async (req, res) => {
+  try {
+    const status = await getFlowStatus(req.params.queue, req.params.id);
+    if (!status) {
+      return res.status(404).json({ error: 'Flow not found' });
+    }
+    res.json({ flowId: req.params.id, queue: req.params.queue, ...status });
+  } catch (error) {
+    res.status(500).json({ success: false, error: String(error) });
+  }
+});
@@ -0,0 +1,109 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { getQueue, getQueueDefinition } from '../queues';
+import { JOB_STATES, serializeJob } from '../queues/jobs';
+import { getJobLogs } from '../queues/job-logs';
+import { formatZodError } from '../queues/validation';
+import { getDeliveryLog } from '../webhooks';
+
+const listQuerySchema = z.object({
+  state: z.enum(JOB_STATES).default('waiting'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  order: z.enum(['asc', 'desc']).default('desc'),
+});
+
+const lookupQuerySchema = z.object({
+  logs: z.coerce.number().int().min(0).max(1000).default(100),
+});
+
+export const jobsRouter = Router();
+
+// List jobs in a queue, filtered by state and paginated
+jobsRouter.get('/:queue', async (req, res) => {
+  try {
+    const queue = getQueue(req.params.queue);
+    if (!queue) {
+      return res.status(404).json({ error: 'Queue not found' });
+    }
+
+    const query = listQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(query.error),
+      });
+    }
+
+    const { state, page, pageSize, order } = query.data;
+    const start = (page - 1) * pageSize;
+    const [jobs, total] = await Promise.all([
+      queue.getJobs(state, start, start + pageSize - 1, order === 'asc'),
+      queue.getJobCountByTypes(state),
+    ]);
+
+    res.json({
+      queue: req.params.queue,
+      state,
+      page,
+      pageSize,
+      total,
+      jobs: await Promise.all(jobs.filter(Boolean).map(job => serializeJob(job, req.params.queue))),
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// Look up a single job's state, progress, result, failure details and latest log lines
+// e.g. GET /jobs/image/42?logs=20 (logs=0 returns only the count)
+jobsRouter.get('/:queue/:id', async (req, res) => {
+  try {
+    const queue = getQueue(req.params.queue);
+    if (!queue) {
+      return res.status(404).json({ error: 'Queue not found' });
+    }
+
+    const query = lookupQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(query.error),
+      });
+    }
+
+    const job = await queue.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const [serialized, logs] = await Promise.all([
+      serializeJob(job, req.params.queue),
+      getJobLogs(queue, req.params.id, query.data.logs),
+    ]);
+
+    res.json({ ...serialized, logs });
+  } catch (error) {
+    res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// Webhook delivery attempts for a job submitted with a callbackUrl
+jobsRouter.get('/:queue/:id/webhooks', async (req, res) => {
+  try {
+    const definition = getQueueDefinition(req.params.queue);
+    if (!definition) {
+      return res.status(404).json({ error: 'Queue not found' });
+    }
+
+    res.json({
+      queue: req.params.queue,
+      jobId: req.params.id,
+      deliveries: await getDeliveryLog(definition.name, req.params.id),
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: String(error) });
+  }
+});
@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { getQueue } from '../queues';
+import { getQueueLimits, updateQueueLimits } from '../queues/limits';
+import { formatZodError } from '../queues/validation';
+
+const limitsSchema = z
+  .object({
+    globalConcurrency: z.number().int().min(1).max(1000).nullable().optional(),
+    rateLimit: z
+      .object({
+        max: z.number().int().min(1),
+        duration: z.number().int().min(100),
+      })
+      .nullable()
+      .optional(),
+    workerConcurrency: z.number().int().min(1).max(500).nullable().optional(),
+  })
+  .refine(body => Object.keys(body).length > 0, 'Provide at least one of globalConcurrency, rateLimit, workerConcurrency');
+
+export const limitsRouter = Router();
+
+// 1. Current worker-side limits for a queue
+limitsRouter.get('/:queue/limits', async (req, res) => {
+  try {
+    if (!getQueue(req.params.queue)) {
+      return res.status(404).json({ error: 'Queue not found' });
+    }
+    res.json({ queue: req.params.queue, ...(await getQueueLimits(req.params.queue)) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// 2. Change limits at runtime; null removes a limit. Applies to running workers without a restart.
+limitsRouter.put('/:queue/limits', async (req, res) => {
+  try {
+    if (!getQueue(req.params.queue)) {
+      return res.status(404).json({ error: 'Queue not found' });
+    }
+
+    const body = limitsSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(body.error),
+      });
+    }
+
+    const limits = await updateQueueLimits(req.params.queue, body.data);
+    res.json({ success: true, queue: req.params.queue, ...limits });
+  } catch (error) {
+    res.status(500).json({ success: false, error: String(error) });
+  }
+});
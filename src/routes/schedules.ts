@@ -0,0 +1,139 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { getQueue, queues } from '../queues';
+import {
+  CONFIG_SCHEDULE_PREFIX,
+  ScheduleError,
+  listSchedules,
+  scheduleSpecSchema,
+  serializeSchedule,
+  upsertSchedule,
+} from '../queues/schedules';
+import { formatZodError } from '../queues/validation';
+import { canAccessQueue } from '../auth';
+
+const scheduleIdSchema = z.string().regex(/^[\w.-]{1,100}$/, 'Use letters, digits, "_", "." or "-"');
+
+const createSchema = z.intersection(z.object({ id: scheduleIdSchema }), scheduleSpecSchema);
+
+export const schedulesRouter = Router();
+
+schedulesRouter.param('queue', (req, res, next, key: string) => {
+  if (!getQueue(key)) {
+    return res.status(404).json({ error: 'Queue not found' });
+  }
+  next();
+});
+
+const handleError = (res: Response, error: unknown) => {
+  if (error instanceof ScheduleError) {
+    return res.status(400).json({ success: false, error: error.message, details: error.details });
+  }
+  res.status(500).json({ success: false, error: String(error) });
+};
+
+// 1. List schedules across all queues
+schedulesRouter.get('/', async (req, res) => {
+  try {
+    const visible = Object.keys(queues).filter(key => canAccessQueue(res.locals.principal, key));
+    const all = await Promise.all(visible.map(key => listSchedules(key)));
+    res.json({ schedules: all.flat() });
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+// 2. List schedules for one queue
+schedulesRouter.get('/:queue', async (req, res) => {
+  try {
+    res.json({ queue: req.params.queue, schedules: await listSchedules(req.params.queue) });
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+// 3. Get one schedule
+schedulesRouter.get('/:queue/:id', async (req, res) => {
+  try {
+    const scheduler = await getQueue(req.params.queue)!.getJobScheduler(req.params.id);
+    if (!scheduler) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+    res.json(serializeSchedule(req.params.queue, scheduler));
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+// 4. Create a schedule (409 if the ID is taken)
+schedulesRouter.post('/:queue', async (req, res) => {
+  try {
+    const body = createSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(body.error),
+      });
+    }
+
+    const { id, ...spec } = body.data;
+    if (await getQueue(req.params.queue)!.getJobScheduler(id)) {
+      return res.status(409).json({ success: false, error: `Schedule "${id}" already exists` });
+    }
+
+    const scheduler = await upsertSchedule(req.params.queue, id, spec);
+    res.status(201).json({ success: true, schedule: serializeSchedule(req.params.queue, scheduler!) });
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+// 5. Update (or create) a schedule
+schedulesRouter.put('/:queue/:id', async (req, res) => {
+  try {
+    if (req.params.id.startsWith(CONFIG_SCHEDULE_PREFIX)) {
+      return res.status(409).json({ success: false, error: 'Config-managed schedules can only be changed in config' });
+    }
+
+    const id = scheduleIdSchema.safeParse(req.params.id);
+    if (!id.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(id.error).map(detail => ({ ...detail, field: 'id' })),
+      });
+    }
+
+    const body = scheduleSpecSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: formatZodError(body.error),
+      });
+    }
+
+    const scheduler = await upsertSchedule(req.params.queue, req.params.id, body.data);
+    res.json({ success: true, schedule: serializeSchedule(req.params.queue, scheduler!) });
+  } catch (error) {
+    handleError(res, error);
+  }
+});
+
+// 6. Delete a schedule
+schedulesRouter.delete('/:queue/:id', async (req, res) => {
+  try {
+    if (req.params.id.startsWith(CONFIG_SCHEDULE_PREFIX)) {
+      return res.status(409).json({ success: false, error: 'Config-managed schedules can only be removed in config' });
+    }
+
+    const removed = await getQueue(req.params.queue)!.removeJobScheduler(req.params.id);
+    if (!removed) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+    res.json({ success: true, message: `Schedule ${req.params.id} removed` });
+  } catch (error) {
+    handleError(res, error);
+  }
+});
@@ -0,0 +1,74 @@
+import { Job, Queue, SandboxedJob, UnrecoverableError } from 'bullmq';
+import { queueDefinitions } from '../queues/registry';
+import { QueueDefinition } from '../queues/types';
+import { bullmqOptions } from '../config/redis';
+import { sandboxConfig } from '../config/sandbox';
+import { runAttempt, runProcessor } from '../processors/run';
+import { startTracing, shutdownTracing } from '../tracing/provider';
+import { armWatchdog, disarmWatchdog } from './watchdog';
+
+// How long a processor that blocks the event loop gets past its timeout before
+// the watchdog kills the sandbox outright
+const KILL_GRACE_MS = 10_000;
+
+startTracing('bullmq-workers');
+
+class SandboxTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Processor timed out after ${timeoutMs}ms`);
+    this.name = 'SandboxTimeoutError';
+  }
+}
+
+// Only needed when a processor hits an upstream rate limit
+const limiterQueues = new Map<string, Queue>();
+
+const limiterFor = (definition: QueueDefinition) => async (retryAfterMs: number) => {
+  let queue = limiterQueues.get(definition.name);
+  if (!queue) {
+    queue = new Queue(definition.name, bullmqOptions());
+    limiterQueues.set(definition.name, queue);
+  }
+  await queue.rateLimit(retryAfterMs);
+};
+
+// BullMQ reports an uncaught exception in a sandbox as the job's failure and
+// then exits, so the pool never hands out a sandbox whose processor still runs
+const failAndExit = (error: Error): Promise<never> => {
+  process.nextTick(() => {
+    throw error;
+  });
+  return new Promise(() => undefined);
+};
+
+// Entry point BullMQ loads in each sandbox (child process or worker thread).
+// The job is a plain copy whose log, progress and getChildrenValues calls are
+// relayed to the worker process. The trace span and the timeout live here.
+export default async (job: SandboxedJob, token?: string) => {
+  const definition = queueDefinitions.find(definition => definition.name === job.queueName);
+  if (!definition) {
+    throw new UnrecoverableError(`No processor registered for ${job.queueName}`);
+  }
+
+  const timeoutMs = definition.sandbox?.timeoutMs ?? sandboxConfig.timeoutMs;
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new SandboxTimeoutError(timeoutMs)), timeoutMs);
+  });
+  armWatchdog(timeoutMs + KILL_GRACE_MS);
+
+  try {
+    return await runAttempt(definition, job as unknown as Job, limiterFor(definition), () =>
+      Promise.race([runProcessor(definition, job as unknown as Job, token), timedOut])
+    );
+  } catch (error) {
+    if (error instanceof SandboxTimeoutError) {
+      await shutdownTracing();
+      return failAndExit(error);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    disarmWatchdog();
+  }
+};
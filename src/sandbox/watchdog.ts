@@ -0,0 +1,33 @@
+import { isMainThread, Worker } from 'worker_threads';
+
+// Plain JS so it runs without the tsx loader. The thread keeps its own event
+// loop, so it still fires while a processor blocks the sandbox's main thread.
+const WATCHDOG_SOURCE = `
+const { parentPort } = require('worker_threads');
+let timer;
+parentPort.on('message', deadlineMs => {
+  clearTimeout(timer);
+  if (deadlineMs) {
+    timer = setTimeout(() => process.kill(process.pid, 'SIGKILL'), deadlineMs);
+  }
+});
+`;
+
+let watchdog: Worker | undefined;
+
+// SIGKILLs this sandbox process unless disarmed within `deadlineMs`. A thread
+// sandbox can't be killed from inside its own process, so there it does nothing.
+export const armWatchdog = (deadlineMs: number) => {
+  if (!isMainThread) {
+    return;
+  }
+  if (!watchdog) {
+    watchdog = new Worker(WATCHDOG_SOURCE, { eval: true, execArgv: [] });
+    watchdog.unref();
+  }
+  watchdog.postMessage(deadlineMs);
+};
+
+export const disarmWatchdog = () => {
+  watchdog?.postMessage(0);
+};
@@ -0,0 +1,34 @@
+import { extname, join } from 'path';
+import { Worker, WorkerOptions } from 'bullmq';
+import { sandboxConfig } from '../config/sandbox';
+import { QueueDefinition } from '../queues/types';
+import { logger } from '../logging/logger';
+
+// .ts under tsx, .js once built; sandboxes inherit the tsx loader through execArgv
+const SANDBOX_ENTRY = join(__dirname, `processor${extname(__filename)}`);
+
+// Worker threads on Node 20 don't get tsx's loader hooks, so in development a
+// 'thread' sandbox runs as a child process instead
+const THREADS_SUPPORTED = extname(__filename) === '.js';
+
+// A Worker whose processor runs in a child process or worker thread from
+// BullMQ's pool, with the heap capped through the public fork / thread options.
+// A crash, an out-of-memory kill or a timeout (enforced by the sandbox entry
+// itself) ends that sandbox and fails only its job; the pool starts a fresh one.
+export class SandboxedWorker extends Worker {
+  constructor(definition: QueueDefinition, opts: WorkerOptions) {
+    const { memoryMb = sandboxConfig.memoryMb } = definition.sandbox!;
+    const mode = THREADS_SUPPORTED ? definition.sandbox!.mode : 'process';
+    if (mode !== definition.sandbox!.mode) {
+      logger.warn('Worker thread sandbox unavailable under tsx, using a child process', { queue: definition.key });
+    }
+
+    super(definition.name, SANDBOX_ENTRY, {
+      ...opts,
+      useWorkerThreads: mode === 'thread',
+      ...(mode === 'thread'
+        ? { workerThreadsOptions: { resourceLimits: { maxOldGenerationSizeMb: memoryMb } } }
+        : { workerForkOptions: { execArgv: [...process.execArgv, `--max-old-space-size=${memoryMb}`] } }),
+    });
+  }
+}
@@ -2,12 +2,62 @@ import express from 'express';
 import { createBullBoard } from '@bull-board/api';
 import { BullMQAdapter } from '@bull-board/api/bullMQAdapter';
 import { ExpressAdapter } from '@bull-board/express';
-import { helloQueue, emailQueue, imageQueue, criticalQueue, allQueues } from './queues';
+import { allQueues, queues, getQueue, getQueueDefinition, queueDefinitions } from './queues';
+import { batchRequestSchema } from './queues/schemas';
+import { getJobSchema } from './queues/validation';
+import { validateBody } from './middleware/validate';
+import { jobsRouter } from './routes/jobs';
+import { eventsRouter } from './routes/events';
+import { dlqRouter } from './routes/dlq';
+import { bulkRouter } from './routes/bulk';
+import { limitsRouter } from './routes/limits';
+import { flowsRouter } from './routes/flows';
+import { closeFlowProducer } from './queues/flows';
+import { seedQueueLimits } from './queues/limits';
+import { renderMetrics, metricsContentType } from './metrics/server';
+import { schedulesRouter } from './routes/schedules';
+import { reconcileSchedules } from './queues/schedules';
+import { scheduleConfig } from './config/schedules';
+import { getAllDeadLetterQueues, closeDeadLetterQueues } from './queues/dead-letter';
+import { waitParam, respondWithJob } from './middleware/wait';
+import { callbackParams } from './middleware/callback';
+import { prepareJobOptions } from './middleware/job-options';
+import { idempotency, markEnqueued } from './middleware/idempotency';
+import { rateLimit } from './middleware/rate-limit';
+import { closeQueueEvents } from './queues/events';
+import { closeEventStream } from './queues/event-stream';
+import { closeRedisConnections } from './config/redis';
+import { payloadConfig } from './config/payloads';
+import { logger } from './logging/logger';
+import { requestId } from './middleware/request-id';
+import { traceRequests } from './middleware/tracing';
+import { startTracing, shutdownTracing } from './tracing/provider';
+import { checkRedis, runHealthChecks } from './health/checks';
+import { authenticate, authorize, canAccessQueue, loginRouter, queueFromPath, readOrOperate } from './auth';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-console.log(`🚀 Server Process Started (PID: ${process.pid})`);
+const log = logger.child({ component: 'server' });
+
+log.info('Server process started');
+startTracing('bullmq-server');
+
+// ==========================================
+// REQUEST CONTEXT
+// ==========================================
+
+// X-Request-Id per request; stored on every job it creates for log correlation
+app.use(requestId);
+// Server span per request; its trace context is stored on every job it creates
+app.use(traceRequests);
+
+// ==========================================
+// AUTHENTICATION
+// ==========================================
+
+app.use(authenticate);
+app.use(loginRouter);
 
 // ==========================================
 // BULL BOARD SETUP
@@ -18,21 +68,23 @@ serverAdapter.setBasePath('/admin/queues');
 
 createBullBoard({
   queues: [
-    new BullMQAdapter(helloQueue),
-    new BullMQAdapter(emailQueue),
-    new BullMQAdapter(imageQueue),
-    new BullMQAdapter(criticalQueue),
+    ...allQueues.map(queue => new BullMQAdapter(queue)),
+    ...getAllDeadLetterQueues().map(queue => new BullMQAdapter(queue, { readOnlyMode: true })),
   ],
   serverAdapter: serverAdapter,
 });
 
-app.use('/admin/queues', serverAdapter.getRouter());
+app.use(
+  '/admin/queues',
+  authorize(readOrOperate, { loginRedirect: true, allQueues: true }),
+  serverAdapter.getRouter()
+);
 
 // ==========================================
 // API ROUTES
 // ==========================================
 
-app.use(express.json());
+app.use(express.json({ limit: payloadConfig.maxRequestBytes }));
 
 app.get('/', (req, res) => {
   res.json({
@@ -42,161 +94,163 @@ app.get('/', (req, res) => {
       server: 'Handles HTTP requests and adds jobs to queues',
       workers: 'Separate processes that consume and process jobs'
     },
+    queues: queueDefinitions.map(({ key, name, description }) => ({ key, name, description })),
     endpoints: {
       'GET /': 'This info',
-      'GET /health': 'Health check',
-      'GET /admin/queues': 'Bull Board UI',
-      'POST /jobs/hello': 'Add hello job (always succeeds)',
-      'POST /jobs/email': 'Add email job with priority',
-      'POST /jobs/image': 'Add image job (30% failure rate)',
-      'POST /jobs/critical': 'Add critical job (retries 3 times)',
-      'POST /jobs/delayed': 'Add delayed job',
+      'Auth': 'X-API-Key header or Authorization: Bearer <API key | JWT>; roles producer, viewer, operator, admin',
+      'GET /health': 'Deep health report: Redis, queue pause state, worker heartbeats, backlog age (503 on failure)',
+      'GET /health/live': 'Liveness: the server process is up',
+      'GET /health/ready': 'Readiness: Redis is reachable (503 otherwise)',
+      'GET /admin/queues': 'Bull Board UI (viewer; sign in at /login)',
+      'GET /login': 'Bull Board sign-in form',
+      'POST /logout': 'End the Bull Board session',
+      ...Object.fromEntries(
+        queueDefinitions.flatMap(({ routes = [] }) => routes.map(({ route, description }) => [`POST /jobs/${route}`, description]))
+      ),
       'POST /jobs/batch': 'Add batch of jobs',
+      'callbackUrl / callbackSecret': 'Optional body fields on /jobs/* routes: POST the outcome (HMAC-signed) when the job finishes',
+      'Idempotency-Key': 'Header (or body idempotencyKey) on /jobs/* routes and POST /flows: repeats return the original job with deduplicated: true',
+      'Rate limits': 'X-RateLimit-* / X-Quota-* headers on /jobs/* routes and POST /flows (one job per node); 429 with Retry-After when exceeded',
+      'Large payloads': 'Job data fields and results over PAYLOAD_OFFLOAD_THRESHOLD_BYTES are kept in storage and show as { $offloaded, bytes }',
+      '?wait=<ms>': 'On single-job routes: wait for the result (202 with jobId on timeout)',
+      'GET /jobs/:queue': 'List jobs by state (?state=&page=&pageSize=&order=)',
+      'GET /jobs/:queue/:id': 'Get job state, progress, result, failure details and logs (?logs=)',
+      'GET /jobs/:queue/:id/webhooks': 'Webhook delivery log for a job',
+      'GET /events': 'SSE stream of job events and log lines (?queue=&jobId=&event=)',
+      'GET /dlq/:queue': 'List dead-letter entries (?name=&reason=&limit=)',
+      'GET /dlq/:queue/:id': 'View a dead-letter entry with its error history',
+      'POST /dlq/:queue/:id/replay': 'Replay one entry to its origin queue (optional edited data)',
+      'POST /dlq/:queue/replay': 'Replay entries matching { name, reason, limit }',
+      'DELETE /dlq/:queue/:id': 'Purge one dead-letter entry',
+      'DELETE /dlq/:queue': 'Purge dead-letter entries (?name=&reason=&limit=)',
+      'GET /schedules[/:queue[/:id]]': 'List or view repeatable schedules',
+      'POST /schedules/:queue': 'Create a schedule ({ id, pattern+tz | every, job: { name, data } })',
+      'PUT /schedules/:queue/:id': 'Create or update a schedule',
+      'DELETE /schedules/:queue/:id': 'Delete a schedule',
+      'POST /flows': 'Add a flow: { queue, name, data, onFailure, children: [...] } (children run first)',
+      'GET /flows/:queue/:id': 'Aggregated flow status by root job',
       'GET /stats': 'Get queue statistics',
+      'GET /metrics': 'Prometheus metrics (queues + aggregated workers)',
       'POST /queues/:queue/pause': 'Pause a queue',
       'POST /queues/:queue/resume': 'Resume a queue',
       'DELETE /queues/:queue/clean': 'Clean completed/failed jobs',
+      'GET /queues/:queue/limits': 'Worker rate limit and concurrency settings',
+      'PUT /queues/:queue/limits': 'Set { globalConcurrency, rateLimit: { max, duration }, workerConcurrency } at runtime',
+      'POST /queues/:queue/bulk/retry': 'Retry failed jobs ({ name, olderThanMs, data, limit, dryRun })',
+      'POST /queues/:queue/bulk/promote': 'Promote delayed jobs (same filters)',
+      'POST /queues/:queue/bulk/remove': 'Remove jobs in { state } (same filters)',
     }
   });
 });
 
-app.get('/health', (req, res) => {
-  res.json({ 
-    status: 'ok', 
+// Liveness: no dependencies, so a Redis outage doesn't get the server restarted
+app.get('/health/live', (req, res) => {
+  res.json({
+    status: 'ok',
     serverPid: process.pid,
     timestamp: new Date().toISOString()
   });
 });
 
-// 1. Simple Hello Job
-app.post('/jobs/hello', async (req, res) => {
-  try {
-    const { name = 'World' } = req.body;
-    const job = await helloQueue.add('hello-job', { name, addedBy: process.pid });
-    res.json({ 
-      success: true, 
-      jobId: job.id, 
-      queue: 'hello-queue',
-      serverPid: process.pid
-    });
-  } catch (error) {
-    res.status(500).json({ success: false, error: String(error) });
-  }
-});
-
-// 2. Email Job with Priority
-app.post('/jobs/email', async (req, res) => {
-  try {
-    const { to, subject, priority = 'normal', type = 'notification' } = req.body;
-    
-    const job = await emailQueue.add(
-      'send-email',
-      { to, subject, type, priority },
-      { priority: priority === 'high' ? 1 : priority === 'normal' ? 5 : 10 }
-    );
-    
-    res.json({ 
-      success: true, 
-      jobId: job.id, 
-      queue: 'email-queue', 
-      priority,
-      serverPid: process.pid
-    });
-  } catch (error) {
-    res.status(500).json({ success: false, error: String(error) });
-  }
-});
-
-// 3. Image Processing Job
-app.post('/jobs/image', async (req, res) => {
-  try {
-    const { filename, size = 1024 } = req.body;
-    const job = await imageQueue.add('process-image', { filename, size });
-    res.json({ 
-      success: true, 
-      jobId: job.id, 
-      queue: 'image-queue',
-      note: '30% chance of failure',
-      serverPid: process.pid
-    });
-  } catch (error) {
-    res.status(500).json({ success: false, error: String(error) });
-  }
+// Readiness: jobs can only be accepted while Redis is reachable
+app.get('/health/ready', async (req, res) => {
+  const redis = await checkRedis();
+  res.status(redis.status === 'fail' ? 503 : 200).json({
+    status: redis.status,
+    serverPid: process.pid,
+    timestamp: new Date().toISOString(),
+    checks: { redis },
+  });
 });
 
-// 4. Critical Job
-app.post('/jobs/critical', async (req, res) => {
-  try {
-    const { task } = req.body;
-    const job = await criticalQueue.add('critical-task', { task });
-    res.json({ 
-      success: true, 
-      jobId: job.id, 
-      queue: 'critical-queue',
-      note: 'Will retry up to 3 times',
-      serverPid: process.pid
-    });
-  } catch (error) {
-    res.status(500).json({ success: false, error: String(error) });
-  }
+// Deep report; 'degraded' (paused queue, no workers, stale backlog) still returns 200
+app.get('/health', async (req, res) => {
+  const report = await runHealthChecks();
+  res.status(report.status === 'fail' ? 503 : 200).json({
+    ...report,
+    serverPid: process.pid,
+    timestamp: new Date().toISOString(),
+  });
 });
 
-// 5. Delayed Job
-app.post('/jobs/delayed', async (req, res) => {
-  try {
-    const { name = 'Delayed User', delayMs = 5000 } = req.body;
-    const job = await helloQueue.add(
-      'delayed-hello',
-      { name },
-      { delay: delayMs }
+// 1-5. One POST /jobs/<route> per route declared in the queue registry
+for (const definition of queueDefinitions) {
+  for (const jobRoute of definition.routes ?? []) {
+    const { key, name } = definition;
+    app.post(
+      `/jobs/${jobRoute.route}`,
+      authorize('produce', { queue: key }),
+      callbackParams,
+      waitParam,
+      idempotency({ route: jobRoute.route, queue: key }),
+      validateBody(jobRoute.body ?? getJobSchema(definition, jobRoute.jobName)!),
+      rateLimit({ route: jobRoute.route, queue: key }),
+      async (req, res) => {
+        try {
+          const { data, opts, response } = jobRoute.toJob?.(req.body) ?? { data: req.body };
+          const job = await getQueue(key)!.add(jobRoute.jobName, data, {
+            ...opts,
+            ...(await prepareJobOptions(res, key)),
+          });
+          markEnqueued(res);
+          await respondWithJob(res, job, key, {
+            success: true,
+            jobId: job.id,
+            queue: name,
+            ...response,
+            serverPid: process.pid
+          });
+        } catch (error) {
+          res.status(500).json({ success: false, error: String(error) });
+        }
+      }
     );
-    res.json({ 
-      success: true, 
-      jobId: job.id,
-      queue: 'hello-queue',
-      delayMs,
-      willRunAt: new Date(Date.now() + delayMs).toISOString(),
-      serverPid: process.pid
-    });
-  } catch (error) {
-    res.status(500).json({ success: false, error: String(error) });
   }
-});
+}
 
 // 6. Batch Jobs
-app.post('/jobs/batch', async (req, res) => {
-  try {
-    const { count = 10 } = req.body;
-    const jobs = [];
-    
-    for (let i = 0; i < count; i++) {
-      jobs.push({
-        name: `batch-job`,
-        data: { name: `User ${i + 1}`, batchId: Date.now() }
+app.post(
+  '/jobs/batch',
+  authorize('produce', { queue: 'hello' }),
+  callbackParams,
+  idempotency({ route: 'batch', queue: 'hello', batchSize: body => batchRequestSchema.safeParse(body).data?.count }),
+  validateBody(batchRequestSchema),
+  rateLimit({ route: 'batch', queue: 'hello', jobs: req => req.body.count }),
+  async (req, res) => {
+    try {
+      const { count } = req.body;
+      const jobs = [];
+      
+      for (let i = 0; i < count; i++) {
+        jobs.push({
+          name: `batch-job`,
+          data: { name: `User ${i + 1}`, batchId: Date.now() },
+          opts: await prepareJobOptions(res, 'hello', i),
+        });
+      }
+      
+      await getQueue('hello')!.addBulk(jobs);
+      markEnqueued(res);
+      res.json({ 
+        success: true, 
+        jobsAdded: count,
+        queue: getQueueDefinition('hello')!.name,
+        serverPid: process.pid
       });
+    } catch (error) {
+      res.status(500).json({ success: false, error: String(error) });
     }
-    
-    await helloQueue.addBulk(jobs);
-    res.json({ 
-      success: true, 
-      jobsAdded: count,
-      queue: 'hello-queue',
-      serverPid: process.pid
-    });
-  } catch (error) {
-    res.status(500).json({ success: false, error: String(error) });
   }
-});
+);
 
 // 7. Queue Statistics
-app.get('/stats', async (req, res) => {
+app.get('/stats', authorize('view'), async (req, res) => {
   try {
-    const stats = {
-      hello: await helloQueue.getJobCounts(),
-      email: await emailQueue.getJobCounts(),
-      image: await imageQueue.getJobCounts(),
-      critical: await criticalQueue.getJobCounts(),
-    };
+    const stats: Record<string, Record<string, number>> = {};
+    for (const [key, queue] of Object.entries(queues)) {
+      if (!canAccessQueue(res.locals.principal, key)) continue;
+      stats[key] = await queue.getJobCounts();
+    }
     res.json(stats);
   } catch (error) {
     res.status(500).json({ success: false, error: String(error) });
@@ -204,16 +258,9 @@ app.get('/stats', async (req, res) => {
 });
 
 // 8. Pause Queue
-app.post('/queues/:queue/pause', async (req, res) => {
+app.post('/queues/:queue/pause', authorize('operate', { queue: req => req.params.queue }), async (req, res) => {
   try {
-    const queueMap: Record<string, any> = {
-      hello: helloQueue,
-      email: emailQueue,
-      image: imageQueue,
-      critical: criticalQueue,
-    };
-    
-    const queue = queueMap[req.params.queue];
+    const queue = getQueue(req.params.queue);
     if (!queue) {
       return res.status(404).json({ error: 'Queue not found' });
     }
@@ -226,16 +273,9 @@ app.post('/queues/:queue/pause', async (req, res) => {
 });
 
 // 9. Resume Queue
-app.post('/queues/:queue/resume', async (req, res) => {
+app.post('/queues/:queue/resume', authorize('operate', { queue: req => req.params.queue }), async (req, res) => {
   try {
-    const queueMap: Record<string, any> = {
-      hello: helloQueue,
-      email: emailQueue,
-      image: imageQueue,
-      critical: criticalQueue,
-    };
-    
-    const queue = queueMap[req.params.queue];
+    const queue = getQueue(req.params.queue);
     if (!queue) {
       return res.status(404).json({ error: 'Queue not found' });
     }
@@ -248,16 +288,9 @@ app.post('/queues/:queue/resume', async (req, res) => {
 });
 
 // 10. Clean Queue
-app.delete('/queues/:queue/clean', async (req, res) => {
+app.delete('/queues/:queue/clean', authorize('operate', { queue: req => req.params.queue }), async (req, res) => {
   try {
-    const queueMap: Record<string, any> = {
-      hello: helloQueue,
-      email: emailQueue,
-      image: imageQueue,
-      critical: criticalQueue,
-    };
-    
-    const queue = queueMap[req.params.queue];
+    const queue = getQueue(req.params.queue);
     if (!queue) {
       return res.status(404).json({ error: 'Queue not found' });
     }
@@ -271,17 +304,65 @@ app.delete('/queues/:queue/clean', async (req, res) => {
   }
 });
 
+// 11. Job Lookup & Listing
+app.use('/jobs', authorize('view', { queue: queueFromPath }), jobsRouter);
+
+// 12. Live Job Event Stream (SSE)
+app.use('/events', authorize('view'), eventsRouter);
+
+// 13. Dead-Letter Queues
+app.use('/dlq', authorize(readOrOperate, { queue: queueFromPath }), dlqRouter);
+
+// 14. Worker Rate Limits & Concurrency
+app.use('/queues', authorize(readOrOperate, { queue: queueFromPath }), limitsRouter);
+
+// 15. Bulk Retry / Promote / Remove
+app.use('/queues', authorize('operate', { queue: queueFromPath }), bulkRouter);
+
+// 16. Repeatable Schedules
+app.use('/schedules', authorize(readOrOperate, { queue: queueFromPath }), schedulesRouter);
+
+// 17. Job Flows (parent/child pipelines)
+app.use('/flows', flowsRouter);
+
+// 18. Prometheus Metrics
+app.get('/metrics', authorize('view'), async (req, res) => {
+  try {
+    res.set('Content-Type', metricsContentType);
+    res.send(await renderMetrics());
+  } catch (error) {
+    res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// ==========================================
+// STARTUP RECONCILIATION
+// ==========================================
+
+seedQueueLimits().catch(error => {
+  log.error('Could not seed queue limits', { err: error });
+});
+
+reconcileSchedules(scheduleConfig)
+  .then(({ upserted, removed }) => {
+    log.info('Schedules reconciled', { upserted, removed });
+  })
+  .catch(error => {
+    log.error('Could not reconcile schedules', { err: error });
+    process.exit(1);
+  });
+
 // ==========================================
 // START SERVER
 // ==========================================
 
 app.listen(PORT, () => {
-  console.log(`🚀 Server running on http://localhost:${PORT} (PID: ${process.pid})`);
-  console.log(`📊 Bull Board UI: http://localhost:${PORT}/admin/queues`);
-  console.log(`\n💡 Architecture:`);
-  console.log(`   - This server ONLY handles HTTP requests and adds jobs to queues`);
-  console.log(`   - Workers run separately and process the jobs`);
-  console.log(`   - Workers can scale independently from the server`);
+  // This server ONLY handles HTTP requests and adds jobs to queues;
+  // workers run separately and scale independently
+  log.info('Server running', {
+    url: `http://localhost:${PORT}`,
+    bullBoard: `http://localhost:${PORT}/admin/queues`,
+  });
 });
 
 // ==========================================
@@ -289,11 +370,17 @@ app.listen(PORT, () => {
 // ==========================================
 
 const gracefulShutdown = async () => {
-  console.log(`\n🛑 [Server:${process.pid}] Shutting down gracefully...`);
+  log.info('Shutting down gracefully');
   
+  await closeEventStream();
+  await closeQueueEvents();
+  await closeFlowProducer();
   await Promise.all(allQueues.map(queue => queue.close()));
+  await closeDeadLetterQueues();
+  await closeRedisConnections();
+  await shutdownTracing();
   
-  console.log(`✅ [Server:${process.pid}] All queues closed`);
+  log.info('All queues closed');
   process.exit(0);
 };
 
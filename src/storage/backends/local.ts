@@ -0,0 +1,51 @@
+import { mkdir, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { randomUUID } from 'crypto';
+import { storageConfig } from '../../config/storage';
+import { StorageBackend } from '../types';
+import { StorageObjectNotFoundError, assertValidStorageKey } from '../errors';
+
+const isNotFound = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+// Keys map onto files under STORAGE_DIR. Writes go to a temp file first, so a
+// reader never sees half an object.
+export const createLocalStorage = (root = storageConfig.localDir): StorageBackend => {
+  const pathOf = (key: string) => {
+    assertValidStorageKey(key);
+    return join(root, key);
+  };
+
+  return {
+    name: 'local',
+    put: async (key, body) => {
+      const path = pathOf(key);
+      const temp = `${path}.${randomUUID()}.tmp`;
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(temp, body);
+      await rename(temp, path);
+      return {
+        key,
+        bytes: body.length,
+        location: path,
+        ...(storageConfig.publicUrl && { url: `${storageConfig.publicUrl}/${key}` }),
+      };
+    },
+    get: async key => {
+      try {
+        return await readFile(pathOf(key));
+      } catch (error) {
+        throw isNotFound(error) ? new StorageObjectNotFoundError(key) : error;
+      }
+    },
+    exists: async key => {
+      const stats = await stat(pathOf(key)).catch(error => {
+        if (isNotFound(error)) return undefined;
+        throw error;
+      });
+      return !!stats?.isFile();
+    },
+    delete: async key => {
+      await rm(pathOf(key), { force: true });
+    },
+  };
+};
@@ -0,0 +1,20 @@
+export class StorageObjectNotFoundError extends Error {
+  constructor(readonly key: string) {
+    super(`Stored object not found: ${key}`);
+    this.name = 'StorageObjectNotFoundError';
+  }
+}
+
+// Relative, "/"-separated, and no "." / ".." segments, so a key maps onto a
+// file path or an object name without escaping the storage root
+export const isValidStorageKey = (key: string) =>
+  key.length > 0 &&
+  key.length <= 1024 &&
+  !/[\\\u0000-\u001f]/.test(key) &&
+  key.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..');
+
+export const assertValidStorageKey = (key: string) => {
+  if (!isValidStorageKey(key)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+};
@@ -0,0 +1,26 @@
+import { storageConfig } from '../config/storage';
+import { StorageBackend } from './types';
+import { createLocalStorage } from './backends/local';
+
+export * from './types';
+export * from './errors';
+export { createLocalStorage };
+
+const factories: Record<string, () => StorageBackend> = {
+  local: createLocalStorage,
+};
+
+// One backend per process, chosen by STORAGE_BACKEND
+let storage: StorageBackend | undefined;
+
+export const getStorage = () => {
+  if (!storage) {
+    storage = factories[storageConfig.backend]();
+  }
+  return storage;
+};
+
+// Swap in another backend, e.g. one rooted in a temp directory for tests
+export const setStorage = (replacement: StorageBackend) => {
+  storage = replacement;
+};
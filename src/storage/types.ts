@@ -0,0 +1,15 @@
+export interface StoredObject {
+  key: string;
+  bytes: number;
+  location: string;     // Where the backend put it: a file path, gs://bucket/key, ...
+  url?: string;         // Public URL, when STORAGE_PUBLIC_URL is set
+}
+
+// Keys are object-store style: "images/42/thumbnail.webp", no leading slash
+export interface StorageBackend {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType?: string): Promise<StoredObject>;
+  get(key: string): Promise<Buffer>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,75 @@
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Job, UnrecoverableError } from 'bullmq';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-node';
+import { shutdownTracing, startTracing, tracer } from './provider';
+import { injectTraceContext, traceJob } from './jobs';
+
+// Just the fields traceJob reads; no Redis involved
+const fakeJob = (overrides: Partial<Job> = {}) =>
+  ({
+    id: '7',
+    name: 'send-email',
+    queueName: 'email-queue',
+    opts: { attempts: 3 },
+    attemptsMade: 0,
+    attemptsStarted: 1,
+    timestamp: Date.now() - 500,
+    delay: 0,
+    processedOn: Date.now(),
+    ...overrides,
+  }) as Job;
+
+describe('traceJob', () => {
+  const exporter = new InMemorySpanExporter();
+  startTracing('tracing-test', { exporter });
+
+  beforeEach(() => exporter.reset());
+  after(() => shutdownTracing());
+
+  it('continues the producer trace with wait and process spans', async () => {
+    // What the server attaches at Queue.add, captured inside the request span
+    const { traceId, opts } = tracer.startActiveSpan('POST /jobs/email', span => {
+      span.end();
+      return { traceId: span.spanContext().traceId, opts: { attempts: 3, ...injectTraceContext() } };
+    });
+    exporter.reset();
+
+    const result = await traceJob('email', fakeJob({ opts }), async () => 'done');
+
+    assert.equal(result, 'done');
+    const spans = exporter.getFinishedSpans();
+    const wait = spans.find(span => span.name === 'email-queue wait')!;
+    const processSpan = spans.find(span => span.name === 'email-queue process')!;
+    assert.ok(wait && processSpan);
+    for (const span of [wait, processSpan]) {
+      assert.equal(span.spanContext().traceId, traceId);
+    }
+    assert.equal(processSpan.kind, SpanKind.CONSUMER);
+    assert.equal(processSpan.attributes['bullmq.queue.key'], 'email');
+    assert.equal(processSpan.attributes['bullmq.job.name'], 'send-email');
+    assert.equal(processSpan.attributes['bullmq.job.attempt'], 1);
+    assert.equal(processSpan.attributes['bullmq.job.outcome'], 'completed');
+  });
+
+  it('records retries without a wait span after the first attempt', async () => {
+    const job = fakeJob({ attemptsMade: 1, attemptsStarted: 2 });
+
+    await assert.rejects(traceJob('email', job, async () => { throw new Error('SMTP timeout'); }));
+
+    const spans = exporter.getFinishedSpans();
+    assert.deepEqual(spans.map(span => span.name), ['email-queue process']);
+    assert.equal(spans[0].attributes['bullmq.job.attempt'], 2);
+    assert.equal(spans[0].attributes['bullmq.job.outcome'], 'retrying');
+    assert.equal(spans[0].status.code, SpanStatusCode.ERROR);
+    assert.equal(spans[0].events[0].name, 'exception');
+  });
+
+  it('marks unrecoverable errors as failed', async () => {
+    await assert.rejects(traceJob('email', fakeJob(), async () => { throw new UnrecoverableError('550 no such user'); }));
+
+    const processSpan = exporter.getFinishedSpans().find(span => span.name === 'email-queue process')!;
+    assert.equal(processSpan.attributes['bullmq.job.outcome'], 'failed');
+  });
+});
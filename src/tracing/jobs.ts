@@ -0,0 +1,80 @@
+import { Job, RateLimitError, UnrecoverableError } from 'bullmq';
+import { Attributes, ROOT_CONTEXT, SpanKind, SpanStatusCode, context, propagation } from '@opentelemetry/api';
+import { tracer } from './provider';
+import { currentAttempt } from '../queues/jobs';
+
+// W3C trace context (traceparent/tracestate) carried in the job options, like the request ID
+export interface TraceContextOptions {
+  traceContext?: Record<string, string>;
+}
+
+export type JobOutcome = 'completed' | 'failed' | 'retrying' | 'rate_limited';
+
+// Captures the active span (the HTTP request) so the worker can continue the trace
+export const injectTraceContext = (): TraceContextOptions => {
+  const carrier: Record<string, string> = {};
+  propagation.inject(context.active(), carrier);
+  return Object.keys(carrier).length ? { traceContext: carrier } : {};
+};
+
+export const traceContextOf = (job: Job): TraceContextOptions => {
+  const { traceContext } = job.opts as TraceContextOptions;
+  return traceContext ? { traceContext } : {};
+};
+
+const outcomeOf = (job: Job, error: unknown): JobOutcome => {
+  if (error instanceof RateLimitError) return 'rate_limited';
+  // By name as well: a sandboxed processor's errors arrive as plain Errors
+  const unrecoverable = error instanceof UnrecoverableError || (error as Error)?.name === 'UnrecoverableError';
+  if (unrecoverable || currentAttempt(job) >= (job.opts.attempts ?? 1)) return 'failed';
+  return 'retrying';
+};
+
+// Runs a processor attempt inside a consumer span parented to the producer's trace.
+// The first attempt also gets a span covering its time in the queue.
+export const traceJob = async <T>(queueKey: string, job: Job, run: () => Promise<T>): Promise<T> => {
+  const parent = propagation.extract(ROOT_CONTEXT, traceContextOf(job).traceContext ?? {});
+  const attempt = currentAttempt(job);
+  const attributes: Attributes = {
+    'messaging.system': 'bullmq',
+    'messaging.destination.name': job.queueName,
+    'messaging.message.id': job.id,
+    'bullmq.queue.key': queueKey,
+    'bullmq.job.name': job.name,
+    'bullmq.job.attempt': attempt,
+  };
+
+  const startedAt = job.processedOn ?? Date.now();
+  if (attempt === 1) {
+    const enqueuedAt = job.timestamp + (job.delay ?? 0);
+    tracer
+      .startSpan(`${job.queueName} wait`, { attributes, startTime: enqueuedAt }, parent)
+      .end(Math.max(enqueuedAt, startedAt));
+  }
+
+  return tracer.startActiveSpan(
+    `${job.queueName} process`,
+    {
+      kind: SpanKind.CONSUMER,
+      attributes: { ...attributes, 'messaging.operation.type': 'process' },
+    },
+    parent,
+    async span => {
+      try {
+        const result = await run();
+        span.setAttribute('bullmq.job.outcome', 'completed' satisfies JobOutcome);
+        return result;
+      } catch (error) {
+        const outcome = outcomeOf(job, error);
+        span.setAttribute('bullmq.job.outcome', outcome);
+        if (outcome !== 'rate_limited') {
+          span.recordException(error instanceof Error ? error : String(error));
+          span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+        }
+        throw error;
+      } finally {
+        span.end();
+      }
+    },
+  );
+};
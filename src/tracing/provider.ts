@@ -0,0 +1,46 @@
+import { trace } from '@opentelemetry/api';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import {
+  NodeTracerProvider,
+  BatchSpanProcessor,
+  SimpleSpanProcessor,
+  SpanExporter,
+} from '@opentelemetry/sdk-trace-node';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { tracingConfig } from '../config/tracing';
+import { logger } from '../logging/logger';
+
+export const tracer = trace.getTracer('bullmq-demo');
+
+let provider: NodeTracerProvider | undefined;
+
+export interface TracingOptions {
+  // Spans go here instead of OTLP, exported synchronously (e.g. an InMemorySpanExporter in tests)
+  exporter?: SpanExporter;
+}
+
+// Registers the global tracer provider. Without it every span is a no-op and
+// no trace context is attached to jobs.
+export const startTracing = (defaultServiceName: string, options: TracingOptions = {}) => {
+  if (provider || (!tracingConfig.enabled && !options.exporter)) {
+    return;
+  }
+
+  const serviceName = tracingConfig.serviceName ?? defaultServiceName;
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: serviceName }),
+    spanProcessors: [
+      options.exporter ? new SimpleSpanProcessor(options.exporter) : new BatchSpanProcessor(new OTLPTraceExporter()),
+    ],
+  });
+  provider.register();
+
+  logger.info('Tracing enabled', { component: 'tracing', serviceName });
+};
+
+// Flushes pending spans; call before the process exits
+export const shutdownTracing = async () => {
+  await provider?.shutdown();
+  provider = undefined;
+};
@@ -0,0 +1,105 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { webhookConfig } from '../config/webhooks';
+import { deliverWebhook, parseRetryAfter, WebhookResponseError } from './deliver';
+import { CallbackUrlError } from './targets';
+import { signWebhook, SIGNATURE_HEADER, TIMESTAMP_HEADER } from './signature';
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+// Local HTTP stub: answers with the status in the path (/status/503) and records each request
+describe('deliverWebhook', () => {
+  const received: Received[] = [];
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    webhookConfig.allowedHosts = ['127.0.0.1'];
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        const status = Number(req.url?.match(/^\/status\/(\d+)/)?.[1] ?? 200);
+        res.writeHead(status, status === 429 ? { 'Retry-After': '30' } : {}).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    webhookConfig.allowedHosts = [];
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('POSTs the payload as JSON with a verifiable signature', async () => {
+    const payload = { event: 'completed', queue: 'email', jobId: '42', result: { sent: true } };
+
+    const status = await deliverWebhook({ url: `${baseUrl}/hook`, secret: 's3cret' }, payload);
+
+    assert.equal(status, 200);
+    const { headers, body } = received[received.length - 1];
+    assert.deepEqual(JSON.parse(body), payload);
+    assert.equal(headers['content-type'], 'application/json');
+    const timestamp = headers[TIMESTAMP_HEADER.toLowerCase()] as string;
+    assert.equal(headers[SIGNATURE_HEADER.toLowerCase()], signWebhook('s3cret', timestamp, body));
+  });
+
+  it('sends no signature without a secret', async () => {
+    await deliverWebhook({ url: `${baseUrl}/hook` }, { event: 'failed' });
+
+    assert.equal(received[received.length - 1].headers[SIGNATURE_HEADER.toLowerCase()], undefined);
+  });
+
+  it('rejects non-2xx replies with the status code', async () => {
+    await assert.rejects(
+      deliverWebhook({ url: `${baseUrl}/status/503` }, { event: 'completed' }),
+      (error: unknown) => error instanceof WebhookResponseError && error.statusCode === 503,
+    );
+  });
+
+  it('passes Retry-After on with a 429', async () => {
+    await assert.rejects(
+      deliverWebhook({ url: `${baseUrl}/status/429` }, { event: 'completed' }),
+      (error: unknown) => error instanceof WebhookResponseError && error.retryAfterMs === 30_000,
+    );
+  });
+
+  it('refuses hosts that resolve to non-public addresses', async () => {
+    const url = baseUrl.replace('127.0.0.1', 'localhost');
+
+    await assert.rejects(deliverWebhook({ url }, { event: 'completed' }), CallbackUrlError);
+    await assert.rejects(deliverWebhook({ url: 'http://10.0.0.1/hook' }, { event: 'completed' }), CallbackUrlError);
+  });
+
+  it('gives up after the timeout', async () => {
+    const silent = createServer(() => undefined);
+    await new Promise<void>(resolve => silent.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(silent.address() as AddressInfo).port}/hook`;
+
+    try {
+      await assert.rejects(deliverWebhook({ url }, { event: 'completed' }, 100), { name: 'TimeoutError' });
+    } finally {
+      silent.closeAllConnections();
+      await new Promise<void>(resolve => silent.close(() => resolve()));
+    }
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delay-seconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    assert.equal(parseRetryAfter('120', now), 120_000);
+    assert.equal(parseRetryAfter('Thu, 01 Jan 2026 00:00:45 GMT', now), 45_000);
+    assert.equal(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now), 0);
+    assert.equal(parseRetryAfter('soon', now), undefined);
+    assert.equal(parseRetryAfter(null, now), undefined);
+  });
+});
@@ -0,0 +1,74 @@
+import http, { IncomingMessage, OutgoingHttpHeaders } from 'http';
+import https from 'https';
+import { webhookConfig } from '../config/webhooks';
+import { signWebhook, SIGNATURE_HEADER, TIMESTAMP_HEADER } from './signature';
+import { assertLiteralTarget, guardedLookup } from './targets';
+import { WebhookRegistration } from './types';
+
+// A callback that answered with something other than 2xx
+export class WebhookResponseError extends Error {
+  constructor(readonly statusCode: number, readonly retryAfterMs?: number) {
+    super(`Callback responded with HTTP ${statusCode}`);
+    this.name = 'WebhookResponseError';
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export const parseRetryAfter = (header: string | null | undefined, now = Date.now()): number | undefined => {
+  if (!header) {
+    return undefined;
+  }
+  if (/^\d+$/.test(header.trim())) {
+    return parseInt(header) * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// http(s).request rather than fetch, so the connection only goes to addresses
+// that passed the guarded lookup. The response body is discarded.
+const post = (url: string, headers: OutgoingHttpHeaders, body: string, timeoutMs: number) =>
+  new Promise<IncomingMessage>((resolve, reject) => {
+    const client = new URL(url).protocol === 'https:' ? https : http;
+    const signal = AbortSignal.timeout(timeoutMs);
+    // A timeout rejects with the signal's TimeoutError, as fetch would
+    const fail = (error: Error) => reject(signal.aborted ? signal.reason : error);
+    const request = client.request(url, { method: 'POST', headers, lookup: guardedLookup, signal }, response => {
+      response.on('error', fail);
+      response.on('end', () => resolve(response));
+      response.resume();
+    });
+    request.on('error', fail);
+    request.end(body);
+  });
+
+// POSTs one payload to the callback URL, signed when the registration has a secret.
+// Resolves with the HTTP status; network errors and timeouts reject as they are,
+// non-public targets with a CallbackUrlError.
+export const deliverWebhook = async (
+  registration: WebhookRegistration,
+  payload: Record<string, unknown>,
+  timeoutMs = webhookConfig.timeoutMs,
+) => {
+  assertLiteralTarget(registration.url);
+
+  const body = JSON.stringify(payload);
+  const timestamp = Date.now().toString();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Content-Length': String(Buffer.byteLength(body)),
+    'User-Agent': 'bullmq-demo-webhooks',
+    [TIMESTAMP_HEADER]: timestamp,
+  };
+  if (registration.secret) {
+    headers[SIGNATURE_HEADER] = signWebhook(registration.secret, timestamp, body);
+  }
+
+  const response = await post(registration.url, headers, body, timeoutMs);
+  const status = response.statusCode!;
+
+  if (status < 200 || status >= 300) {
+    throw new WebhookResponseError(status, parseRetryAfter(response.headers['retry-after']));
+  }
+  return status;
+};
@@ -0,0 +1,47 @@
+import { Job, JobsOptions } from 'bullmq';
+import { getQueue } from '../queues';
+import { QueueDefinition } from '../queues/types';
+import { CorrelationOptions, requestIdOf } from '../logging/correlation';
+import { TraceContextOptions, traceContextOf } from '../tracing/jobs';
+import { getWebhookRegistration } from './store';
+import { WebhookJobData } from './types';
+
+export * from './store';
+export * from './signature';
+export * from './deliver';
+export * from './targets';
+export * from './types';
+
+// Called from the worker once a job has completed or failed for good
+export const enqueueWebhook = async (definition: QueueDefinition, job: Job, event: WebhookJobData['event']) => {
+  if (!job.id || definition.key === 'webhook') {
+    return;
+  }
+
+  const registration = await getWebhookRegistration(definition.name, job.id);
+  if (!registration) {
+    return;
+  }
+
+  const data: WebhookJobData = {
+    event,
+    sourceQueue: definition.name,
+    sourceJobId: job.id,
+    payload: {
+      event,
+      queue: definition.key,
+      jobId: job.id,
+      jobName: job.name,
+      attemptsMade: job.attemptsMade,
+      ...(event === 'completed' ? { result: job.returnvalue } : { failedReason: job.failedReason }),
+      finishedAt: new Date(job.finishedOn ?? Date.now()).toISOString(),
+    },
+  };
+
+  const opts: JobsOptions & CorrelationOptions & TraceContextOptions = {
+    jobId: `${definition.key}-${job.id}-${event}`,
+    requestId: requestIdOf(job),
+    ...traceContextOf(job),
+  };
+  await getQueue('webhook')!.add('deliver-webhook', data, opts);
+};
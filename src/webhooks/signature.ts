@@ -0,0 +1,9 @@
+import { createHmac } from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+// HMAC-SHA256 over "<timestamp>.<body>", sent as "sha256=<hex>".
+// Receivers should recompute it and reject stale timestamps.
+export const signWebhook = (secret: string, timestamp: string, body: string) =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
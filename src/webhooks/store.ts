@@ -0,0 +1,38 @@
+import { getRedisClient } from '../config/redis';
+import { WebhookDeliveryAttempt, WebhookRegistration } from './types';
+
+const REGISTRATION_TTL_SECONDS = 7 * 24 * 60 * 60;
+const MAX_LOG_ENTRIES = 50;
+
+const registrationKey = (queueName: string, jobId: string) => `webhooks:callback:${queueName}:${jobId}`;
+const logKey = (queueName: string, jobId: string) => `webhooks:log:${queueName}:${jobId}`;
+
+// Registrations live outside job data so secrets never show up in Bull Board or GET /jobs
+export const saveWebhookRegistration = async (queueName: string, jobId: string, registration: WebhookRegistration) => {
+  await getRedisClient().set(
+    registrationKey(queueName, jobId),
+    JSON.stringify(registration),
+    'EX',
+    REGISTRATION_TTL_SECONDS
+  );
+};
+
+export const getWebhookRegistration = async (queueName: string, jobId: string) => {
+  const raw = await getRedisClient().get(registrationKey(queueName, jobId));
+  return raw ? (JSON.parse(raw) as WebhookRegistration) : null;
+};
+
+export const appendDeliveryLog = async (queueName: string, jobId: string, entry: WebhookDeliveryAttempt) => {
+  const key = logKey(queueName, jobId);
+  await getRedisClient()
+    .multi()
+    .rpush(key, JSON.stringify(entry))
+    .ltrim(key, -MAX_LOG_ENTRIES, -1)
+    .expire(key, REGISTRATION_TTL_SECONDS)
+    .exec();
+};
+
+export const getDeliveryLog = async (queueName: string, jobId: string) => {
+  const entries = await getRedisClient().lrange(logKey(queueName, jobId), 0, -1);
+  return entries.map(entry => JSON.parse(entry) as WebhookDeliveryAttempt);
+};
@@ -0,0 +1,59 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { webhookConfig } from '../config/webhooks';
+import { assertCallbackTarget, CallbackUrlError, isPublicAddress } from './targets';
+
+describe('isPublicAddress', () => {
+  it('refuses loopback, private, link-local and reserved addresses', () => {
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '0.1.2.3',
+      '255.255.255.255', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1',
+    ]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it('refuses the documentation ranges', () => {
+    for (const address of ['192.0.2.1', '198.51.100.7', '203.0.113.200']) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it('refuses IPv6 addresses that embed an IPv4 address', () => {
+    for (const address of [
+      '::a00:1',                  // IPv4-compatible 10.0.0.1
+      '::808:808',                // IPv4-compatible, even of a public address
+      '64:ff9b::a9fe:a9fe',       // Well-known NAT64 for 169.254.169.254
+      '64:ff9b:1::a00:1',         // Local-use NAT64
+      '2001:0:4136:e378::1',      // Teredo
+      '2002:7f00:1::1',           // 6to4 for 127.0.0.1
+    ]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it('accepts public addresses', () => {
+    for (const address of ['93.184.215.14', '8.8.8.8', '172.32.0.1', '2606:4700::1111']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+});
+
+describe('assertCallbackTarget', () => {
+  afterEach(() => {
+    webhookConfig.allowedHosts = [];
+  });
+
+  it('refuses hosts and literals that point inside the network', async () => {
+    for (const url of ['http://localhost:3000/hook', 'http://169.254.169.254/latest', 'http://[::1]/hook']) {
+      await assert.rejects(assertCallbackTarget(url), CallbackUrlError, url);
+    }
+  });
+
+  it('accepts public literals and allowlisted hosts', async () => {
+    webhookConfig.allowedHosts = ['localhost'];
+
+    await assertCallbackTarget('https://93.184.215.14/hook');
+    await assertCallbackTarget('http://localhost:3000/hook');
+  });
+});
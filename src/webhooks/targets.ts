@@ -0,0 +1,111 @@
+import { lookup, LookupAddress } from 'dns';
+import { lookup as lookupAll } from 'dns/promises';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { webhookConfig } from '../config/webhooks';
+
+// A callbackUrl that points (or resolves) somewhere callbacks must not go
+export class CallbackUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CallbackUrlError';
+  }
+}
+
+// Loopback, private, link-local, shared (CGNAT), documentation, multicast and
+// reserved ranges, plus the IPv6 ranges that embed an IPv4 address and can
+// reach one through a translating gateway. BlockList checks IPv4-mapped IPv6
+// addresses (::ffff:a.b.c.d) against the IPv4 ranges, and IPv4 addresses
+// against ::ffff:0:0/96, so that range isn't listed.
+const nonPublic = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],     // TEST-NET-1
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],  // TEST-NET-2
+  ['203.0.113.0', 24],   // TEST-NET-3
+  ['224.0.0.0', 3],
+] as const) {
+  nonPublic.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96],           // Unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96],    // Well-known NAT64
+  ['64:ff9b:1::', 48],  // Local-use NAT64
+  ['2001::', 32],       // Teredo
+  ['2002::', 16],       // 6to4
+  ['fc00::', 7],        // Unique local
+  ['fe80::', 10],       // Link-local
+  ['ff00::', 8],        // Multicast
+] as const) {
+  nonPublic.addSubnet(network, prefix, 'ipv6');
+}
+
+export const isPublicAddress = (address: string): boolean => {
+  const family = isIP(address);
+  return family !== 0 && !nonPublic.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const isAllowedHost = (hostname: string) => webhookConfig.allowedHosts.includes(hostname.toLowerCase());
+
+const refuse = (hostname: string, address: string) =>
+  new CallbackUrlError(
+    hostname === address
+      ? `Callback address ${address} is not public`
+      : `Callback host ${hostname} resolves to a non-public address (${address})`
+  );
+
+const hostOf = (url: string) => new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+
+// IP literals never reach a lookup function, so deliveries check them up front
+export const assertLiteralTarget = (url: string) => {
+  const hostname = hostOf(url);
+  if (isIP(hostname) && !isAllowedHost(hostname) && !isPublicAddress(hostname)) {
+    throw refuse(hostname, hostname);
+  }
+};
+
+// Checked when a callback is registered: every address the host resolves to must be public
+export const assertCallbackTarget = async (url: string) => {
+  const hostname = hostOf(url);
+  if (isIP(hostname) || isAllowedHost(hostname)) {
+    return assertLiteralTarget(url);
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookupAll(hostname, { all: true });
+  } catch {
+    throw new CallbackUrlError(`Callback host ${hostname} could not be resolved`);
+  }
+
+  const address = addresses.find(({ address }) => !isPublicAddress(address));
+  if (address) {
+    throw refuse(hostname, address.address);
+  }
+};
+
+// The same check at connect time, on the addresses the request really uses, so a
+// host re-pointed at an internal address after registration is still refused
+export const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '', 0);
+    }
+
+    const address = isAllowedHost(hostname) ? undefined : addresses.find(({ address }) => !isPublicAddress(address));
+    if (address) {
+      return callback(refuse(hostname, address.address), '', 0);
+    }
+    if (options.all) {
+      return (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
@@ -0,0 +1,22 @@
+export interface WebhookRegistration {
+  url: string;
+  secret?: string;
+}
+
+export interface WebhookDeliveryAttempt {
+  attempt: number;
+  event: 'completed' | 'failed';
+  url: string;
+  ok: boolean;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+  attemptedAt: string;
+}
+
+export interface WebhookJobData {
+  event: 'completed' | 'failed';
+  sourceQueue: string;
+  sourceJobId: string;
+  payload: Record<string, unknown>;
+}
@@ -1,164 +1,202 @@
-import { Worker, QueueEvents } from 'bullmq';
-import { redisConnection } from './config/redis';
-
-console.log(`🔧 Worker Process Started (PID: ${process.pid})`);
+import { Worker, QueueEvents, QueueEventsListener, Job } from 'bullmq';
+import { appChannel, bullmqOptions, closeRedisConnections, getRedisClient } from './config/redis';
+import { queueDefinitions, allQueues, getQueue } from './queues';
+import { enqueueWebhook } from './webhooks';
+import { moveToDeadLetter, closeDeadLetterQueues } from './queues/dead-letter';
+import { QueueDefinition } from './queues/types';
+import { QueueLimiter, runAttempt, runProcessor } from './processors/run';
+import { backoffStrategy } from './processors/backoff';
+import { SandboxedWorker } from './sandbox/worker';
+import { sandboxConfig } from './config/sandbox';
+import { workerConfig } from './config/workers';
+import { WORKER_CONTROL_CHANNEL, WorkerControlMessage, getWorkerConcurrencyOverrides } from './queues/limits';
+import {
+  recordActive,
+  recordCompleted,
+  recordConcurrency,
+  recordFailed,
+  recordRateLimited,
+  startMetricsPublisher,
+  trackActiveJobs,
+} from './metrics/worker';
+import { logger } from './logging/logger';
+import { jobLogger } from './logging/correlation';
+import { startTracing, shutdownTracing } from './tracing/provider';
+import { startWorkerHeartbeat } from './health/heartbeat';
+import { startWorkerHealthServer } from './health/worker-server';
+import { healthConfig } from './config/health';
+import { closeEmailTransport } from './email';
+import { startPayloadCollector } from './payloads';
+
+const log = logger.child({ component: 'worker' });
+
+log.info('Worker process started', { queues: workerConfig.queues });
+startTracing('bullmq-workers');
+
+// Only the queues selected for this process (WORKER_QUEUES / --queues)
+const definitions = queueDefinitions.filter(definition => workerConfig.queues.includes(definition.key));
+
+// WORKER_CONCURRENCY / --concurrency, else the registry value
+const baseConcurrency = (definition: QueueDefinition) =>
+  workerConfig.concurrency[definition.key] ?? definition.concurrency ?? 1;
 
 // QUEUE EVENTS MONITORING
 
-const helloEvents = new QueueEvents('hello-queue', { connection: redisConnection });
-helloEvents.on('completed', ({ jobId }) => {
-  console.log(`[HELLO-QUEUE] ✅ Job ${jobId} completed`);
-});
-helloEvents.on('failed', ({ jobId, failedReason }) => {
-  console.log(`[HELLO-QUEUE] ❌ Job ${jobId} failed: ${failedReason}`);
-});
+const queueEvents = definitions
+  .filter(definition => definition.events)
+  .map(definition => {
+    const events = new QueueEvents(definition.name, bullmqOptions());
 
-const emailEvents = new QueueEvents('email-queue', { connection: redisConnection });
-emailEvents.on('completed', ({ jobId }) => {
-  console.log(`[EMAIL-QUEUE] ✅ Job ${jobId} completed`);
-});
+    for (const [event, handler] of Object.entries(definition.events!)) {
+      events.on(event as keyof QueueEventsListener, handler as QueueEventsListener[keyof QueueEventsListener]);
+    }
 
-const imageEvents = new QueueEvents('image-queue', { connection: redisConnection });
+    return events;
+  });
 
-imageEvents.on('failed', ({ jobId, failedReason }) => {
-  console.log(`[IMAGE-QUEUE] ❌ Job ${jobId} failed: ${failedReason}`);
-});
+// FAILED JOB HANDLING
 
-const criticalEvents = new QueueEvents('critical-queue', { connection: redisConnection });
+// The worker emits 'failed' for every attempt; only a job that ended up in the
+// failed set (retries exhausted or unrecoverable) gets its callback and moves to the DLQ
+const handleFailedJob = async (definition: QueueDefinition, job: Job) => {
+  const final = (await job.getState()) === 'failed';
+  recordFailed(definition.key, job, final);
+  if (!final) {
+    return;
+  }
 
-criticalEvents.on('completed', ({ jobId }) => {
-  console.log(`[CRITICAL-QUEUE] ✅ Job ${jobId} completed after retries`);
-});
+  await enqueueWebhook(definition, job, 'failed');
 
-// WORKERS DEFINITION
-
-// 1. Hello Worker - Simple success
-const helloWorker = new Worker(
-  'hello-queue',
-  async (job) => {
-    console.log(`[HELLO-WORKER:${process.pid}] Processing job ${job.id}:`, job.data);
-    await new Promise(resolve => setTimeout(resolve, 10000));
-    
-    return { 
-      message: `Hello ${job.data.name}!`,
-      processedAt: new Date().toISOString(),
-      processedBy: process.pid
-    };
-  },
-  { 
-    connection: redisConnection,
-    concurrency: 5 // Process 5 jobs simultaneously
-  }
-);
-
-// 2. Email Worker - With priority handling
-const emailWorker = new Worker(
-  'email-queue',
-  async (job) => {
-    console.log(`[EMAIL-WORKER:${process.pid}] Processing ${job.data.type} email to ${job.data.to}`);
-    
-    const delay = job.data.priority === 'high' ? 7000 : 20000;
-    await new Promise(resolve => setTimeout(resolve, delay));
-    
-    return {
-      sent: true,
-      to: job.data.to,
-      subject: job.data.subject,
-      sentAt: new Date().toISOString(),
-      processedBy: process.pid
-    };
-  },
-  { 
-    connection: redisConnection,
-    concurrency: 10 // Email workers can handle more concurrent jobs
+  if (definition.deadLetter && (await moveToDeadLetter(definition, job))) {
+    jobLogger(job).info('Job moved to dead-letter queue');
   }
-);
-
-// 3. Image Worker - Simulates failures
-const imageWorker = new Worker(
-  'image-queue',
-  async (job) => {
-    console.log(`[IMAGE-WORKER:${process.pid}] Processing image ${job.data.filename}`);
-    
-    await new Promise(resolve => setTimeout(resolve, 15000));
-    
-    // Simulate random failures (30% chance)
-    if (Math.random() < 0.3) {
-      throw new Error(`Failed to process image: ${job.data.filename}`);
-    }
-    
-    return {
-      filename: job.data.filename,
-      url: `https://cdn.example.com/${job.data.filename}`,
-      size: job.data.size,
-      processedAt: new Date().toISOString(),
-      processedBy: process.pid
-    };
-  },
-  { 
-    connection: redisConnection,
-    concurrency: 3 // Image processing is resource-intensive
-  }
-);
-
-// 4. Critical Worker - With retries
-const criticalWorker = new Worker(
-  'critical-queue',
-  async (job) => {
-    console.log(`[CRITICAL-WORKER:${process.pid}] Attempt ${job.attemptsMade + 1} for job ${job.id}`);
-    
-    await new Promise(resolve => setTimeout(resolve, 10000));
-    
-    // Fail on first 2 attempts, succeed on 3rd
-    if (job.attemptsMade < 2) {
-      throw new Error(`Temporary failure (attempt ${job.attemptsMade + 1})`);
-    }
-    
-    return {
-      task: job.data.task,
-      completedAfterAttempts: job.attemptsMade + 1,
-      processedAt: new Date().toISOString(),
-      processedBy: process.pid
-    };
-  },
-  { 
-    connection: redisConnection,
-    concurrency: 2
-  }
-);
+};
 
-// WORKER EVENT LISTENERS
+// WORKERS DEFINITION
 
-const workers = [helloWorker, emailWorker, imageWorker, criticalWorker];
+const workersByKey = new Map<string, Worker>();
+
+const workers = definitions.map(definition => {
+  // Sandboxed processors trace and back off inside the sandbox (src/sandbox/processor.ts),
+  // so their rate-limited attempts don't show up in this process's metrics
+  const limiter: QueueLimiter = async retryAfterMs => {
+    recordRateLimited(definition.key);
+    await getQueue(definition.key)!.rateLimit(retryAfterMs);
+  };
+
+  const options = { ...bullmqOptions(), concurrency: baseConcurrency(definition), settings: { backoffStrategy } };
+
+  const worker: Worker =
+    definition.sandbox && sandboxConfig.enabled
+      ? new SandboxedWorker(definition, options)
+      : new Worker(
+          definition.name,
+          (job, token, signal) =>
+            runAttempt(definition, job, limiter, () => runProcessor(definition, job, token, signal)),
+          options
+        );
+
+  recordConcurrency(definition.key, worker.concurrency);
+  trackActiveJobs(definition.key, worker);
+  workersByKey.set(definition.key, worker);
+
+  // WORKER EVENT LISTENERS
+
+  worker.on('active', (job) => {
+    recordActive(definition.key, job);
+    jobLogger(job).info('Job started', { name: job.name });
+  });
 
-workers.forEach((worker, index) => {
-  const workerNames = ['HELLO', 'EMAIL', 'IMAGE', 'CRITICAL'];
-  
   worker.on('completed', (job) => {
-    console.log(`✅ [${workerNames[index]}-WORKER:${process.pid}] Job ${job.id} completed`);
+    recordCompleted(definition.key, job);
+    jobLogger(job).info('Job completed', { durationMs: (job.finishedOn ?? Date.now()) - (job.processedOn ?? Date.now()) });
+    enqueueWebhook(definition, job, 'completed').catch(err => {
+      jobLogger(job).error('Could not enqueue webhook', { err });
+    });
   });
 
   worker.on('failed', (job, err) => {
-    console.log(`❌ [${workerNames[index]}-WORKER:${process.pid}] Job ${job?.id} failed:`, err.message);
+    if (!job) {
+      log.error('Job failed', { queue: definition.name, err });
+      return;
+    }
+    jobLogger(job).warn('Job failed', { reason: err.message });
+    handleFailedJob(definition, job).catch(err => {
+      jobLogger(job).error('Could not finalise failed job', { err });
+    });
   });
 
   worker.on('error', (err) => {
-    console.error(`🔥 [${workerNames[index]}-WORKER:${process.pid}] Worker error:`, err);
+    log.error('Worker error', { queue: definition.name, err });
   });
+
+  return worker;
+});
+
+// RUNTIME CONCURRENCY CONTROL
+
+const setWorkerConcurrency = (key: string, concurrency: number | null) => {
+  const worker = workersByKey.get(key);
+  if (!worker) return;
+
+  // Clearing the runtime override goes back to this process's configured concurrency
+  worker.concurrency = concurrency ?? baseConcurrency(definitions.find(definition => definition.key === key)!);
+  recordConcurrency(key, worker.concurrency);
+  log.info('Concurrency updated', { queue: key, concurrency: worker.concurrency });
+};
+
+const controlSubscriber = getRedisClient().duplicate();
+
+controlSubscriber.subscribe(appChannel(WORKER_CONTROL_CHANNEL)).catch(err => {
+  log.error('Could not subscribe to worker control', { err });
 });
 
+controlSubscriber.on('message', (channel, raw) => {
+  try {
+    const message: WorkerControlMessage = JSON.parse(raw);
+    setWorkerConcurrency(message.queue, message.concurrency);
+  } catch {
+    log.error('Invalid worker control message', { raw });
+  }
+});
+
+getWorkerConcurrencyOverrides()
+  .then(overrides => Object.entries(overrides).forEach(([key, concurrency]) => setWorkerConcurrency(key, concurrency)))
+  .catch(err => log.error('Could not load concurrency overrides', { err }));
+
+const stopMetricsPublisher = startMetricsPublisher();
+const stopPayloadCollector = startPayloadCollector();
+
+// HEALTH
+
+const stopHeartbeat = startWorkerHeartbeat([...workersByKey.keys()]);
+const healthServer = startWorkerHealthServer(healthConfig.workerPort, workersByKey);
+
 // GRACEFUL SHUTDOWN
 
 const gracefulShutdown = async () => {
-  console.log(`\n🛑 [Worker:${process.pid}] Shutting down gracefully...`);
-  
+  log.info('Shutting down gracefully');
+
   await Promise.all(workers.map(worker => worker.close()));
-  
-  console.log(`✅ [Worker:${process.pid}] All workers closed`);
+  await controlSubscriber.quit();
+  await stopMetricsPublisher();
+  stopPayloadCollector();
+  await stopHeartbeat();
+  healthServer.close();
+  await closeEmailTransport();
+  await Promise.all(queueEvents.map(events => events.close()));
+  await Promise.all(allQueues.map(queue => queue.close()));
+  await closeDeadLetterQueues();
+  await closeRedisConnections();
+  await shutdownTracing();
+
+  log.info('All workers closed');
   process.exit(0);
 };
 
 process.on('SIGTERM', gracefulShutdown);
 process.on('SIGINT', gracefulShutdown);
 
-console.log(`✅ All workers initialized and ready (PID: ${process.pid})`);
+log.info('All workers initialized and ready', {
+  queues: definitions.map(definition => ({ queue: definition.key, concurrency: baseConcurrency(definition) })),
+});